@@ -49,7 +49,7 @@ echo "📝 Updating wrangler.toml with resource IDs..."
 # In production, you'd want to parse and update the actual IDs
 
 echo "🗃️ Running database migrations..."
-npx wrangler d1 execute feedback_aggregator --file=migrations/0001_create_feedback_table.sql --local || echo "Migration may have already run"
+node scripts/migrate.mjs --local
 
 echo "📤 Deploying to Cloudflare Workers..."
 DEPLOY_URL=$(npx wrangler deploy --json | jq -r '.url // empty')
@@ -65,6 +65,8 @@ if [ -n "$DEPLOY_URL" ]; then
     echo "   - /feedback-summary"
     echo "   - /network-insights"
     echo "   - /network-viz"
+    echo "   - /feedback-search"
+    echo "   - /feedback-triage"
     echo "4. Test with: @YourBot help"
 else
     echo "❌ Deployment failed. Check the logs above."
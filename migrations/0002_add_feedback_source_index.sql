@@ -0,0 +1,2 @@
+-- Connectors upsert by upstream id, so look rows up by (source_type, source_id)
+CREATE INDEX IF NOT EXISTS idx_feedback_source ON feedback(source_type, source_id);
@@ -0,0 +1,11 @@
+-- Cursor and last-run status for each scheduled pull connector
+CREATE TABLE IF NOT EXISTS connector_state (
+    name TEXT PRIMARY KEY,
+    cursor TEXT,
+    last_run_at TEXT,
+    last_success_at TEXT,
+    last_status TEXT, -- ok | partial | budget_paused | error
+    last_error TEXT,
+    items_last_run INTEGER DEFAULT 0,
+    items_total INTEGER DEFAULT 0
+);
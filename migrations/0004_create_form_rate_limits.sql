@@ -0,0 +1,7 @@
+-- Fixed-window submission counters for the embeddable feedback form, keyed by hashed client IP
+CREATE TABLE IF NOT EXISTS form_rate_limits (
+    client_hash TEXT NOT NULL,
+    window_start INTEGER NOT NULL, -- unix seconds
+    count INTEGER DEFAULT 0,
+    PRIMARY KEY (client_hash, window_start)
+);
@@ -0,0 +1,34 @@
+-- Comments and replies (GitHub/Jira `comments`, Slack/Teams/email `replies`) move out of the
+-- metadata JSON into their own table so analysis can cover the whole conversation
+CREATE TABLE IF NOT EXISTS feedback_messages (
+    id INTEGER PRIMARY KEY,
+    feedback_id TEXT NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL, -- comment | reply
+    position INTEGER NOT NULL, -- order within the thread
+    external_id TEXT, -- upstream comment/reply id, when the source has one
+    author TEXT NOT NULL,
+    content TEXT NOT NULL,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_messages_feedback ON feedback_messages(feedback_id, kind, position);
+
+-- Backfill from existing metadata
+INSERT INTO feedback_messages (feedback_id, kind, position, external_id, author, content, created_at)
+SELECT f.id, 'comment', CAST(m.key AS INTEGER), json_extract(m.value, '$.id'),
+       COALESCE(json_extract(m.value, '$.author'), 'unknown'), json_extract(m.value, '$.content'),
+       COALESCE(json_extract(m.value, '$.created_at'), f.created_at)
+FROM feedback f, json_each(f.metadata, '$.comments') m
+WHERE json_valid(f.metadata) AND m.type = 'object' AND json_type(m.value, '$.content') = 'text';
+
+INSERT INTO feedback_messages (feedback_id, kind, position, external_id, author, content, created_at)
+SELECT f.id, 'reply', CAST(m.key AS INTEGER), json_extract(m.value, '$.id'),
+       COALESCE(json_extract(m.value, '$.author'), 'unknown'), json_extract(m.value, '$.content'),
+       COALESCE(json_extract(m.value, '$.created_at'), f.created_at)
+FROM feedback f, json_each(f.metadata, '$.replies') m
+WHERE json_valid(f.metadata) AND m.type = 'object' AND json_type(m.value, '$.content') = 'text';
+
+UPDATE feedback
+SET metadata = json_remove(metadata, '$.comments', '$.replies')
+WHERE json_valid(metadata)
+  AND (json_type(metadata, '$.comments') IS NOT NULL OR json_type(metadata, '$.replies') IS NOT NULL);
@@ -0,0 +1,5 @@
+-- Items that report the same issue (near-duplicate text or explicit cross-references) share a
+-- cluster id; NULL means not clustered yet
+ALTER TABLE feedback ADD COLUMN cluster_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_cluster ON feedback(cluster_id);
@@ -0,0 +1,22 @@
+-- Rule-based analysis of each item, computed once at ingest so the summary, insights and
+-- network views are SQL aggregates. JSON columns hold arrays of names. Rows with an older
+-- rules_version (or none at all) are filled in by the re-enrichment job.
+CREATE TABLE IF NOT EXISTS feedback_enrichment (
+    feedback_id TEXT PRIMARY KEY REFERENCES feedback(id) ON DELETE CASCADE,
+    categories TEXT NOT NULL DEFAULT '[]', -- labels plus keyword topics
+    priority_categories TEXT NOT NULL DEFAULT '[]', -- priority matrix buckets
+    severity INTEGER NOT NULL DEFAULT 1, -- 1-5
+    critical INTEGER NOT NULL DEFAULT 0, -- counted in the summary's critical issues
+    critical_mention INTEGER NOT NULL DEFAULT 0, -- mentions a critical keyword; ranked in the insights
+    feature_request INTEGER NOT NULL DEFAULT 0,
+    layers TEXT NOT NULL DEFAULT '[]', -- OSI layers mentioned
+    journey_stages TEXT NOT NULL DEFAULT '[]',
+    pain_points TEXT NOT NULL DEFAULT '[]',
+    features TEXT NOT NULL DEFAULT '[]',
+    sentiment TEXT NOT NULL DEFAULT 'neutral', -- positive | negative | neutral
+    rules_version INTEGER NOT NULL,
+    enriched_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_enrichment_rules_version ON feedback_enrichment(rules_version);
+CREATE INDEX IF NOT EXISTS idx_feedback_enrichment_critical ON feedback_enrichment(critical_mention, severity);
@@ -0,0 +1,29 @@
+-- Full-text index over feedback title and content for /api/feedback/search and
+-- /feedback-search. External-content table: the text stays in `feedback` and the triggers
+-- below keep the index in step with it. If the two ever drift, resync with
+--   INSERT INTO feedback_fts(feedback_fts) VALUES ('rebuild');
+CREATE VIRTUAL TABLE IF NOT EXISTS feedback_fts USING fts5(
+    title,
+    content,
+    content = 'feedback',
+    content_rowid = 'rowid',
+    tokenize = 'porter unicode61'
+);
+
+CREATE TRIGGER IF NOT EXISTS feedback_fts_insert AFTER INSERT ON feedback BEGIN
+    INSERT INTO feedback_fts (rowid, title, content) VALUES (new.rowid, new.title, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS feedback_fts_delete AFTER DELETE ON feedback BEGIN
+    INSERT INTO feedback_fts (feedback_fts, rowid, title, content) VALUES ('delete', old.rowid, old.title, old.content);
+END;
+
+-- Upserts rewrite every column; only reindex when the text actually changed
+CREATE TRIGGER IF NOT EXISTS feedback_fts_update AFTER UPDATE OF title, content ON feedback
+WHEN old.title IS NOT new.title OR old.content IS NOT new.content BEGIN
+    INSERT INTO feedback_fts (feedback_fts, rowid, title, content) VALUES ('delete', old.rowid, old.title, old.content);
+    INSERT INTO feedback_fts (rowid, title, content) VALUES (new.rowid, new.title, new.content);
+END;
+
+-- Index the rows that already exist
+INSERT INTO feedback_fts (feedback_fts) VALUES ('rebuild');
@@ -0,0 +1,13 @@
+-- Triage state per item: new -> acknowledged -> in-progress -> resolved | wont-fix.
+-- Items without a row are `new`.
+CREATE TABLE IF NOT EXISTS feedback_triage (
+    feedback_id TEXT PRIMARY KEY REFERENCES feedback(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'new',
+    assignee TEXT, -- Slack user id (<@U123>) or free text
+    resolution TEXT, -- notes on how it was resolved, or why it won't be
+    updated_at TEXT NOT NULL,
+    updated_by TEXT NOT NULL -- who made the last change: Slack user id or `api`
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_triage_status ON feedback_triage(status);
+CREATE INDEX IF NOT EXISTS idx_feedback_triage_assignee ON feedback_triage(assignee);
@@ -0,0 +1,9 @@
+-- Prompt-safe copy of each item: title and conversation with emails, phone numbers, IPs and
+-- names masked, plus the kinds of PII found. The originals stay in feedback / feedback_messages,
+-- which only the API-key routes serve.
+ALTER TABLE feedback_enrichment ADD COLUMN redacted_title TEXT;
+ALTER TABLE feedback_enrichment ADD COLUMN redacted_content TEXT;
+ALTER TABLE feedback_enrichment ADD COLUMN pii TEXT NOT NULL DEFAULT '[]';
+
+-- Set by the retention job once an item past RETENTION_DAYS has been anonymized
+ALTER TABLE feedback ADD COLUMN anonymized_at TEXT;
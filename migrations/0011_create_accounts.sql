@@ -0,0 +1,20 @@
+-- Customers and organizations. Feedback isn't linked to an account directly: account_rules
+-- map authors and sender email domains to accounts, and are matched at query time so rule
+-- edits apply to existing feedback straight away.
+CREATE TABLE IF NOT EXISTS accounts (
+    id TEXT PRIMARY KEY, -- slug, e.g. megacorp
+    name TEXT NOT NULL,
+    tier TEXT, -- e.g. enterprise, business, starter
+    arr INTEGER, -- annual recurring revenue in USD
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS account_rules (
+    account_id TEXT NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL, -- author (exact, case-insensitive) | domain (sender domain or a subdomain of it)
+    pattern TEXT NOT NULL, -- lowercased
+    PRIMARY KEY (kind, pattern)
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_rules_account ON account_rules(account_id);
@@ -0,0 +1,12 @@
+-- One row per metric per day, written by the snapshot job so trends can be charted.
+-- Metrics: total, unique_issues, critical, open_critical, feature_requests, sentiment (-1..1),
+-- health_score (0-100), and per-group counts named source:<type>, category:<name>, layer:<name>.
+CREATE TABLE IF NOT EXISTS metric_snapshots (
+    day TEXT NOT NULL, -- YYYY-MM-DD (UTC)
+    metric TEXT NOT NULL,
+    value REAL NOT NULL,
+    captured_at TEXT NOT NULL,
+    PRIMARY KEY (metric, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_metric_snapshots_day ON metric_snapshots(day);
@@ -0,0 +1,28 @@
+-- Append-only record of every change to feedback, triage and accounts, and of admin actions.
+-- `changes` is a JSON object of { field: { before, after } }; free text in it is PII-redacted so
+-- the log doesn't keep what the retention policy removes. `details` holds action results.
+CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at TEXT NOT NULL,
+    actor TEXT NOT NULL, -- api-key:<fingerprint>, slack:<user id>, webhook:<source>, system
+    route TEXT NOT NULL, -- e.g. PATCH /api/feedback/:id, cron
+    action TEXT NOT NULL, -- create | update | delete | run
+    entity_type TEXT NOT NULL, -- feedback | triage | account | admin
+    entity_id TEXT NOT NULL,
+    changes TEXT NOT NULL DEFAULT '{}',
+    details TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
@@ -0,0 +1,40 @@
+-- The categorization taxonomy, editable through /api/taxonomy: topic categories (with their
+-- priority matrix bucket), user journey stages and tracked features. Keywords are lowercase
+-- phrases matched on word boundaries; patterns are case-insensitive regular expressions; labels
+-- match the item's own labels. JSON columns hold arrays of strings.
+CREATE TABLE IF NOT EXISTS taxonomy (
+    kind TEXT NOT NULL, -- category | journey_stage | feature
+    name TEXT NOT NULL,
+    keywords TEXT NOT NULL DEFAULT '[]',
+    patterns TEXT NOT NULL DEFAULT '[]',
+    labels TEXT NOT NULL DEFAULT '[]',
+    priority TEXT, -- urgent | high | medium | low; categories only, null = not in the priority matrix
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (kind, name)
+);
+
+-- Fingerprint of the taxonomy an enrichment row was computed under; rows under another one are
+-- re-categorized by the re-enrichment job
+ALTER TABLE feedback_enrichment ADD COLUMN taxonomy_version TEXT;
+
+-- The rules previously hardcoded in feedback-enrichment.ts, reconciled into one set
+INSERT OR IGNORE INTO taxonomy (kind, name, keywords, patterns, labels, priority, updated_at) VALUES
+    ('category', 'security', '["security","vulnerability","vulnerabilities"]', '[]', '["security"]', 'urgent', strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('category', 'performance', '["performance","slow","cpu","memory"]', '[]', '["performance"]', 'high', strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('category', 'compatibility', '["compatibility","arm64","ipv6"]', '[]', '["compatibility"]', 'medium', strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('category', 'features', '["feature","features","enhancement","enhancements"]', '[]', '["enhancement"]', 'medium', strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('category', 'usability', '["usability","ui","dashboard"]', '[]', '["usability"]', 'low', strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('category', 'docker', '["docker","container","containers"]', '[]', '["docker"]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('category', 'network', '["network","connectivity"]', '[]', '["network"]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('journey_stage', 'First Time Setup', '["setup","install","installation","deploy","deployment"]', '[]', '[]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('journey_stage', 'Daily Usage', '["dashboard","monitoring","daily"]', '[]', '[]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('journey_stage', 'Troubleshooting', '["error","errors","issue","issues","problem","problems"]', '[]', '[]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('journey_stage', 'Advanced Features', '["prometheus","integration","integrations","api"]', '[]', '[]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('feature', 'prometheus', '["prometheus"]', '[]', '[]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('feature', 'snmp', '["snmp"]', '[]', '[]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('feature', 'dashboard', '["dashboard","dashboards"]', '[]', '[]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('feature', 'api', '["api"]', '[]', '[]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('feature', 'alerting', '["alerting","alert","alerts"]', '[]', '[]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('feature', 'reporting', '["reporting","report","reports"]', '[]', '[]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('feature', 'docker', '["docker"]', '[]', '[]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now')),
+    ('feature', 'kubernetes', '["kubernetes","k8s"]', '[]', '[]', NULL, strftime('%Y-%m-%dT%H:%M:%SZ', 'now'));
@@ -0,0 +1,7 @@
+-- Why each item got its severity: a JSON array of { factor, name, points } (label, priority,
+-- keyword, source, reporter, recency...) computed from the SEVERITY_WEIGHTS model
+ALTER TABLE feedback_enrichment ADD COLUMN severity_breakdown TEXT NOT NULL DEFAULT '[]';
+
+-- Fingerprint of the weights a row was scored under; rows under other weights are re-scored by
+-- the re-enrichment job
+ALTER TABLE feedback_enrichment ADD COLUMN severity_version TEXT;
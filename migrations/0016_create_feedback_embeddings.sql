@@ -0,0 +1,27 @@
+-- One vector per item and embedding model, computed from the item's redacted text
+-- (feedback_enrichment). text_hash identifies that text, so re-enrichment that leaves it as it
+-- was doesn't cost another Workers AI call.
+CREATE TABLE IF NOT EXISTS feedback_embeddings (
+    feedback_id TEXT NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+    model TEXT NOT NULL, -- @cf/baai/bge-small-en-v1.5, or local/hashing-256 without Workers AI
+    text_hash TEXT NOT NULL,
+    vector TEXT NOT NULL, -- JSON array of floats, unit length
+    embedded_at TEXT NOT NULL,
+    PRIMARY KEY (feedback_id, model)
+);
+
+-- Themes the vectors group into, rebuilt by the cron whenever new vectors are written.
+-- JSON columns: terms (label words), representatives ([{ id, title }], closest to the
+-- centre first) and item_ids.
+CREATE TABLE IF NOT EXISTS feedback_themes (
+    id TEXT PRIMARY KEY,
+    model TEXT NOT NULL,
+    label TEXT NOT NULL,
+    terms TEXT NOT NULL DEFAULT '[]',
+    size INTEGER NOT NULL,
+    representatives TEXT NOT NULL DEFAULT '[]',
+    item_ids TEXT NOT NULL DEFAULT '[]',
+    built_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_themes_model ON feedback_themes(model, size);
@@ -0,0 +1,11 @@
+-- Per-item sentiment: score runs from -1 (negative) to 1 (positive), confidence from 0 to 1.
+-- Ingest scores every item with the keyword lexicon; the cron re-scores items with Workers AI
+-- in batches while the AI budget lasts, recording the model in sentiment_method. Re-enrichment
+-- keeps a model's score as long as the item's redacted text is unchanged.
+ALTER TABLE feedback_enrichment ADD COLUMN sentiment_score REAL NOT NULL DEFAULT 0;
+ALTER TABLE feedback_enrichment ADD COLUMN sentiment_confidence REAL NOT NULL DEFAULT 0;
+ALTER TABLE feedback_enrichment ADD COLUMN sentiment_method TEXT NOT NULL DEFAULT 'lexicon';
+
+-- When the model last looked at the item. Items it couldn't score aren't sent again until
+-- they're re-enriched.
+ALTER TABLE feedback_enrichment ADD COLUMN sentiment_scored_at TEXT;
@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+// Applies pending migrations/*.sql through wrangler and records them in schema_migrations,
+// the same table the worker's /api/admin/migrations route uses.
+//
+//   npm run db:migrate              # local dev database
+//   npm run db:migrate -- --remote  # production database
+//   npm run db:migrate -- --status  # list applied/pending without changing anything
+
+import { execFileSync } from 'node:child_process'
+import { mkdtempSync, readdirSync, readFileSync, writeFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+const DATABASE = process.env.D1_DATABASE || 'feedback_aggregator'
+const MIGRATIONS_DIR = new URL('../migrations/', import.meta.url).pathname
+
+const args = process.argv.slice(2)
+const statusOnly = args.includes('--status')
+const target = args.includes('--remote') ? '--remote' : '--local'
+
+function wrangler(...extra) {
+  const output = execFileSync('npx', ['wrangler', 'd1', 'execute', DATABASE, target, '--json', ...extra], {
+    encoding: 'utf8',
+    stdio: ['ignore', 'pipe', 'inherit']
+  })
+  return JSON.parse(output)
+}
+
+function query(sql) {
+  const results = wrangler('--command', sql)
+  return results[results.length - 1].results || []
+}
+
+const migrations = readdirSync(MIGRATIONS_DIR)
+  .filter(file => /^\d+_.+\.sql$/.test(file))
+  .sort()
+  .map(file => ({ version: parseInt(file, 10), name: file.replace(/\.sql$/, ''), file }))
+
+query('CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)')
+
+// Databases created before schema_migrations existed already ran 0001
+let applied = new Map(query('SELECT version, applied_at FROM schema_migrations').map(row => [row.version, row.applied_at]))
+if (applied.size === 0 && query("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'feedback'").length > 0) {
+  const first = migrations[0]
+  query(`INSERT INTO schema_migrations (version, name, applied_at) VALUES (${first.version}, '${first.name}', '${new Date().toISOString()}')`)
+  applied = new Map([[first.version, new Date().toISOString()]])
+}
+
+const pending = migrations.filter(migration => !applied.has(migration.version))
+
+if (statusOnly) {
+  migrations.forEach(migration => {
+    console.log(`${applied.has(migration.version) ? 'applied' : 'pending'}  ${migration.name}`)
+  })
+  process.exit(0)
+}
+
+if (pending.length === 0) {
+  console.log('No pending migrations.')
+  process.exit(0)
+}
+
+const workDir = mkdtempSync(join(tmpdir(), 'migrate-'))
+try {
+  for (const migration of pending) {
+    const sql = readFileSync(join(MIGRATIONS_DIR, migration.file), 'utf8').trim()
+    const file = join(workDir, migration.file)
+    // Newline before the terminator in case the file ends with a comment
+    writeFileSync(file, `${sql.endsWith(';') ? sql : `${sql}\n;`}\nINSERT INTO schema_migrations (version, name, applied_at) VALUES (${migration.version}, '${migration.name}', '${new Date().toISOString()}');\n`)
+
+    console.log(`Applying ${migration.name}...`)
+    wrangler('--file', file)
+  }
+  console.log(`Applied ${pending.length} migration(s).`)
+} finally {
+  rmSync(workDir, { recursive: true, force: true })
+}
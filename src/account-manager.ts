@@ -0,0 +1,291 @@
+import { buildFeedbackWhere } from './feedback-query'
+import { CLOSED_STATUSES } from './feedback-triage'
+import type { FieldError } from './feedback-validation'
+import { FreeTierManager } from './free-tier-optimizations'
+import { AuditContext, AuditLog, diffRecords } from './audit-log'
+
+export interface Account {
+  id: string
+  name: string
+  tier: string | null
+  // Annual recurring revenue, USD
+  arr: number | null
+  // Rules mapping feedback to the account (lowercased)
+  authors: string[]
+  domains: string[]
+  created_at: string
+  updated_at: string
+}
+
+export type AccountInput = Pick<Account, 'name' | 'tier' | 'arr' | 'authors' | 'domains'>
+
+export interface AccountResult {
+  status: 'created' | 'updated' | 'conflict'
+  account?: Account
+  reason?: string
+}
+
+export interface AccountRollup {
+  account: Account
+  feedback_count: number
+  // Critical items not yet resolved or closed as won't-fix, most severe first
+  open_critical_issues: { id: string, title: string, source_type: string, severity: number, status: string, created_at: string }[]
+  top_categories: { name: string, count: number }[]
+  pain_points: { name: string, count: number }[]
+  // Per month, oldest first; score is (positive - negative) / total
+  sentiment_trend: { month: string, positive: number, neutral: number, negative: number, total: number, score: number }[]
+  recent: { id: string, title: string, source_type: string, created_at: string }[]
+}
+
+export const ACCOUNT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/
+
+const MAX_RULES = 50
+
+// Account row plus its rules as JSON arrays
+const ACCOUNT_COLUMNS = `
+  id, name, tier, arr, created_at, updated_at,
+  (SELECT json_group_array(pattern) FROM (SELECT pattern FROM account_rules WHERE account_id = accounts.id AND kind = 'author' ORDER BY pattern)) AS authors,
+  (SELECT json_group_array(pattern) FROM (SELECT pattern FROM account_rules WHERE account_id = accounts.id AND kind = 'domain' ORDER BY pattern)) AS domains
+`
+
+// Rule patterns are compared lowercased; domains also lose a leading `@` or `*.`
+function normalizeAuthor(author: string): string {
+  return author.trim().toLowerCase()
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^@/, '').replace(/^\*\./, '')
+}
+
+export function validateAccountInput(input: any): { input?: AccountInput, errors: FieldError[] } {
+  const errors: FieldError[] = []
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { errors: [{ field: 'body', message: 'must be a JSON object' }] }
+  }
+  if (typeof input.name !== 'string' || input.name.trim() === '') {
+    errors.push({ field: 'name', message: 'is required and must be a non-empty string' })
+  }
+  if (input.tier !== undefined && input.tier !== null && (typeof input.tier !== 'string' || input.tier.trim() === '')) {
+    errors.push({ field: 'tier', message: 'must be a non-empty string or null' })
+  }
+  if (input.arr !== undefined && input.arr !== null && !(typeof input.arr === 'number' && Number.isFinite(input.arr) && input.arr >= 0)) {
+    errors.push({ field: 'arr', message: 'must be a non-negative number or null' })
+  }
+  for (const name of ['authors', 'domains']) {
+    const value = input[name]
+    if (value === undefined) continue
+    if (!Array.isArray(value) || !value.every(v => typeof v === 'string' && v.trim() !== '')) {
+      errors.push({ field: name, message: 'must be an array of non-empty strings' })
+    } else if (value.length > MAX_RULES) {
+      errors.push({ field: name, message: `must contain at most ${MAX_RULES} entries` })
+    }
+  }
+  if (Array.isArray(input.domains) && input.domains.some((domain: any) => typeof domain === 'string' && !/^[a-z0-9.-]+\.[a-z]{2,}$/.test(normalizeDomain(domain)))) {
+    errors.push({ field: 'domains', message: 'must be domain names like example.com' })
+  }
+
+  if (errors.length > 0) return { errors }
+
+  return {
+    input: {
+      name: input.name.trim(),
+      tier: input.tier?.trim().toLowerCase() || null,
+      arr: input.arr ?? null,
+      authors: [...new Set<string>((input.authors || []).map(normalizeAuthor))],
+      domains: [...new Set<string>((input.domains || []).map(normalizeDomain))]
+    },
+    errors
+  }
+}
+
+// Customer accounts in D1 (accounts + account_rules) and the per-account feedback rollups
+export class AccountManager {
+  private freeTierManager = FreeTierManager.getInstance()
+  private auditLog = new AuditLog()
+
+  async listAccounts(env: any): Promise<Account[]> {
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT ${ACCOUNT_COLUMNS} FROM accounts ORDER BY arr IS NULL, arr DESC, name
+    `).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    return rows.map(row => this.mapRow(row))
+  }
+
+  async getAccount(id: string, env: any): Promise<Account | null> {
+    const row = await env.FEEDBACK_DB.prepare(`SELECT ${ACCOUNT_COLUMNS} FROM accounts WHERE id = ?`).bind(id).first()
+    return row ? this.mapRow(row) : null
+  }
+
+  // By id or name, ignoring case; falls back to the first account whose name starts with `name`
+  async findAccount(name: string, env: any): Promise<Account | null> {
+    const query = name.trim().toLowerCase()
+    if (!query) return null
+
+    const row = await env.FEEDBACK_DB.prepare(`
+      SELECT ${ACCOUNT_COLUMNS} FROM accounts
+      WHERE id = ? OR lower(name) = ? OR lower(name) LIKE ? || '%'
+      ORDER BY id = ? OR lower(name) = ? DESC, name
+      LIMIT 1
+    `).bind(query, query, query, query, query).first()
+    return row ? this.mapRow(row) : null
+  }
+
+  // Create or replace an account and its rules. An author or domain already mapped to another
+  // account is a conflict.
+  async saveAccount(id: string, input: AccountInput, audit: AuditContext, env: any): Promise<AccountResult> {
+    const rules = [
+      ...input.authors.map(pattern => ({ kind: 'author', pattern })),
+      ...input.domains.map(pattern => ({ kind: 'domain', pattern }))
+    ]
+
+    const taken = await env.FEEDBACK_DB.prepare(`
+      SELECT r.kind, r.pattern, r.account_id
+      FROM account_rules r, json_each(?) j
+      WHERE r.kind = json_extract(j.value, '$.kind') AND r.pattern = json_extract(j.value, '$.pattern')
+        AND r.account_id != ?
+      LIMIT 1
+    `).bind(JSON.stringify(rules), id).first()
+    if (taken) {
+      return { status: 'conflict', reason: `${taken.kind} ${taken.pattern} already belongs to account ${taken.account_id}` }
+    }
+
+    const existing = await this.getAccount(id, env)
+    const now = new Date().toISOString()
+
+    await env.FEEDBACK_DB.batch([
+      env.FEEDBACK_DB.prepare(`
+        INSERT INTO accounts (id, name, tier, arr, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+          name = excluded.name,
+          tier = excluded.tier,
+          arr = excluded.arr,
+          updated_at = excluded.updated_at
+      `).bind(id, input.name, input.tier, input.arr, now, now),
+      env.FEEDBACK_DB.prepare('DELETE FROM account_rules WHERE account_id = ?').bind(id),
+      env.FEEDBACK_DB.prepare(`
+        INSERT INTO account_rules (account_id, kind, pattern)
+        SELECT ?, json_extract(value, '$.kind'), json_extract(value, '$.pattern') FROM json_each(?)
+      `).bind(id, JSON.stringify(rules)),
+      this.auditLog.insertStatement([{
+        action: existing ? 'update' : 'create',
+        entity_type: 'account',
+        entity_id: id,
+        changes: diffRecords(existing && this.auditFields(existing), this.auditFields(input))
+      }], audit, env)
+    ])
+    this.freeTierManager.recordD1RowsWritten(2 + rules.length)
+
+    return { status: existing ? 'updated' : 'created', account: (await this.getAccount(id, env))! }
+  }
+
+  async deleteAccount(id: string, audit: AuditContext, env: any): Promise<boolean> {
+    const existing = await this.getAccount(id, env)
+    if (!existing) return false
+
+    await env.FEEDBACK_DB.batch([
+      env.FEEDBACK_DB.prepare('DELETE FROM account_rules WHERE account_id = ?').bind(id),
+      env.FEEDBACK_DB.prepare('DELETE FROM accounts WHERE id = ?').bind(id),
+      this.auditLog.insertStatement([{
+        action: 'delete',
+        entity_type: 'account',
+        entity_id: id,
+        changes: diffRecords(this.auditFields(existing), null)
+      }], audit, env)
+    ])
+    return true
+  }
+
+  // Everything the account's feedback adds up to: open critical issues, what it's about, and
+  // how its sentiment moves month to month
+  async getRollup(id: string, env: any): Promise<AccountRollup | null> {
+    const account = await this.getAccount(id, env)
+    if (!account) return null
+
+    const { clause, binds } = buildFeedbackWhere({ account: id })
+    const closed = JSON.stringify(CLOSED_STATUSES)
+
+    const [totals, critical, categories, painPoints, trend, recent] = await Promise.all([
+      env.FEEDBACK_DB.prepare(`SELECT COUNT(*) AS count FROM feedback WHERE ${clause}`).bind(...binds).first(),
+      env.FEEDBACK_DB.prepare(`
+        SELECT f.id, f.title, f.source_type, f.created_at, e.severity,
+               COALESCE((SELECT status FROM feedback_triage WHERE feedback_id = f.id), 'new') AS status
+        FROM feedback f
+        JOIN feedback_enrichment e ON e.feedback_id = f.id
+        WHERE ${clause} AND e.critical_mention = 1
+          AND f.id NOT IN (SELECT feedback_id FROM feedback_triage WHERE status IN (SELECT value FROM json_each(?)))
+        ORDER BY e.severity DESC, f.created_at_timestamp DESC
+        LIMIT 10
+      `).bind(...binds, closed).all(),
+      env.FEEDBACK_DB.prepare(`
+        SELECT c.value AS name, COUNT(*) AS count
+        FROM feedback f
+        JOIN feedback_enrichment e ON e.feedback_id = f.id, json_each(e.categories) c
+        WHERE ${clause}
+        GROUP BY c.value
+        ORDER BY count DESC, name
+        LIMIT 5
+      `).bind(...binds).all(),
+      env.FEEDBACK_DB.prepare(`
+        SELECT p.value AS name, COUNT(*) AS count
+        FROM feedback f
+        JOIN feedback_enrichment e ON e.feedback_id = f.id, json_each(e.pain_points) p
+        WHERE ${clause}
+        GROUP BY p.value
+        ORDER BY count DESC, name
+        LIMIT 5
+      `).bind(...binds).all(),
+      env.FEEDBACK_DB.prepare(`
+        SELECT strftime('%Y-%m', f.created_at) AS month,
+               SUM(e.sentiment = 'positive') AS positive,
+               SUM(e.sentiment = 'neutral') AS neutral,
+               SUM(e.sentiment = 'negative') AS negative,
+               COUNT(*) AS total
+        FROM feedback f
+        JOIN feedback_enrichment e ON e.feedback_id = f.id
+        WHERE ${clause}
+        GROUP BY month
+        ORDER BY month
+      `).bind(...binds).all(),
+      env.FEEDBACK_DB.prepare(`
+        SELECT id, title, source_type, created_at FROM feedback
+        WHERE ${clause}
+        ORDER BY created_at_timestamp DESC
+        LIMIT 5
+      `).bind(...binds).all()
+    ])
+    this.freeTierManager.recordD1RowsRead(totals?.count || 0)
+
+    return {
+      account,
+      feedback_count: totals?.count || 0,
+      open_critical_issues: critical.results || [],
+      top_categories: categories.results || [],
+      pain_points: painPoints.results || [],
+      sentiment_trend: (trend.results || []).map((row: any) => ({
+        ...row,
+        score: Math.round(((row.positive - row.negative) / row.total) * 100) / 100
+      })),
+      recent: recent.results || []
+    }
+  }
+
+  private auditFields(account: AccountInput): Record<string, unknown> {
+    return { name: account.name, tier: account.tier, arr: account.arr, authors: account.authors, domains: account.domains }
+  }
+
+  private mapRow(row: any): Account {
+    return {
+      id: row.id,
+      name: row.name,
+      tier: row.tier,
+      arr: row.arr,
+      authors: JSON.parse(row.authors),
+      domains: JSON.parse(row.domains),
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { FreeTierManager } from './free-tier-optimizations'
+import { toDay } from './metric-snapshots'
+
+export type AnomalyDirection = 'spike' | 'drop'
+
+export interface Anomaly {
+  // category:<name> or source:<source_type>, as in metric_snapshots
+  metric: string
+  kind: 'category' | 'source'
+  name: string
+  direction: AnomalyDirection
+  // Items in the last WINDOW_DAYS days
+  count: number
+  // What the baseline predicts for the same number of days
+  expected: number
+  // count / expected; null when the baseline is empty
+  ratio: number | null
+  z: number
+  // "snmp feedback tripled this week (9 items vs ~3 a week before)"
+  summary: string
+  // Items in the window behind a spike (newest first); empty for drops
+  item_ids: string[]
+}
+
+interface DailySeries {
+  kind: Anomaly['kind']
+  name: string
+  counts: Map<string, number>
+  ids: Map<string, string[]>
+}
+
+// The last week against the four before it
+const WINDOW_DAYS = 7
+const BASELINE_DAYS = 28
+const Z_THRESHOLD = 3
+// Fewer items than this either way is noise, whatever the z-score says
+const MIN_COUNT = 3
+// Variance floor for near-empty baselines, so a handful of new reports doesn't score infinity
+const MIN_DAILY_VARIANCE = 0.25
+const MAX_ANOMALIES = 10
+const MAX_ITEM_IDS = 20
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function round(value: number, places: number = 1): number {
+  const factor = 10 ** places
+  return Math.round(value * factor) / factor
+}
+
+function describe(series: DailySeries, count: number, expected: number, ratio: number | null): string {
+  const subject = series.kind === 'source' ? `Feedback from ${series.name}` : `${series.name} feedback`
+  const weekly = round(expected * 7 / WINDOW_DAYS)
+  const baseline = `${count} items vs ~${weekly} a week before`
+
+  if (ratio === null) return `${subject} is new this week (${count} items, none in the previous ${BASELINE_DAYS / 7} weeks)`
+  if (ratio < 1) return `${subject} is down ${Math.round((1 - ratio) * 100)}% this week (${baseline})`
+  const change = ratio >= 1.8 && ratio < 2.5 ? 'doubled' : ratio >= 2.5 && ratio < 3.5 ? 'tripled' : `is up ${round(ratio)}x`
+  return `${subject} ${change} this week (${baseline})`
+}
+
+// Daily item counts per category and per source over a rolling baseline; a window whose count is
+// more than Z_THRESHOLD standard errors from what the baseline days predict is an anomaly
+export class AnomalyDetector {
+  private freeTierManager = FreeTierManager.getInstance()
+
+  async detect(env: any, now: Date = new Date()): Promise<Anomaly[]> {
+    const windowStart = toDay(new Date(now.getTime() - (WINDOW_DAYS - 1) * DAY_MS))
+    const baselineStart = toDay(new Date(now.getTime() - (WINDOW_DAYS + BASELINE_DAYS - 1) * DAY_MS))
+    const baselineDays = Array.from({ length: BASELINE_DAYS }, (_, i) => toDay(new Date(Date.parse(baselineStart) + i * DAY_MS)))
+
+    const series = await this.loadSeries(baselineStart, env)
+    const anomalies: Anomaly[] = []
+
+    for (const entry of series) {
+      const daily = baselineDays.map(day => entry.counts.get(day) || 0)
+      const mean = daily.reduce((sum, value) => sum + value, 0) / BASELINE_DAYS
+      const variance = daily.reduce((sum, value) => sum + (value - mean) ** 2, 0) / BASELINE_DAYS
+
+      const windowDays = [...entry.counts.keys()].filter(day => day >= windowStart).sort().reverse()
+      const count = windowDays.reduce((sum, day) => sum + entry.counts.get(day)!, 0)
+      const expected = mean * WINDOW_DAYS
+      const z = (count - expected) / Math.sqrt(WINDOW_DAYS * Math.max(variance, mean, MIN_DAILY_VARIANCE))
+
+      const direction: AnomalyDirection | null =
+        z >= Z_THRESHOLD && count >= MIN_COUNT ? 'spike' :
+        z <= -Z_THRESHOLD && expected >= MIN_COUNT ? 'drop' : null
+      if (!direction) continue
+
+      const ratio = expected > 0 ? round(count / expected, 2) : null
+      anomalies.push({
+        metric: `${entry.kind}:${entry.name}`,
+        kind: entry.kind,
+        name: entry.name,
+        direction,
+        count,
+        expected: round(expected),
+        ratio,
+        z: round(z, 2),
+        summary: describe(entry, count, expected, ratio),
+        item_ids: direction === 'spike'
+          ? [...new Set(windowDays.flatMap(day => entry.ids.get(day) || []))].slice(0, MAX_ITEM_IDS)
+          : []
+      })
+    }
+
+    // Spikes first, strongest first
+    return anomalies
+      .sort((a, b) => (a.direction === b.direction ? 0 : a.direction === 'spike' ? -1 : 1) || Math.abs(b.z) - Math.abs(a.z))
+      .slice(0, MAX_ANOMALIES)
+  }
+
+  // Per-day counts (UTC, by created_at) from `since`, with the ids behind each day
+  private async loadSeries(since: string, env: any): Promise<DailySeries[]> {
+    const result = await env.FEEDBACK_DB.prepare(`
+      WITH recent AS (
+        SELECT id, source_type, created_at_timestamp, date(created_at_timestamp, 'unixepoch') AS day
+        FROM feedback
+        WHERE created_at_timestamp >= unixepoch(?)
+      )
+      SELECT 'category' AS kind, c.value AS name, r.day, COUNT(*) AS count,
+             json_group_array(r.id) AS ids
+      FROM (SELECT * FROM recent ORDER BY created_at_timestamp DESC) r
+      JOIN feedback_enrichment e ON e.feedback_id = r.id, json_each(e.categories) c
+      GROUP BY c.value, r.day
+      UNION ALL
+      SELECT 'source', r.source_type, r.day, COUNT(*), json_group_array(r.id)
+      FROM (SELECT * FROM recent ORDER BY created_at_timestamp DESC) r
+      GROUP BY r.source_type, r.day
+    `).bind(since).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    const series = new Map<string, DailySeries>()
+    for (const row of rows) {
+      const key = `${row.kind}:${row.name}`
+      let entry = series.get(key)
+      if (!entry) {
+        entry = { kind: row.kind, name: row.name, counts: new Map(), ids: new Map() }
+        series.set(key, entry)
+      }
+      entry.counts.set(row.day, row.count)
+      entry.ids.set(row.day, JSON.parse(row.ids))
+    }
+    return [...series.values()]
+  }
+}
@@ -0,0 +1,154 @@
+import { FreeTierManager, conservativeDB } from './free-tier-optimizations'
+
+// Who made a change and through which entry point
+export interface AuditContext {
+  // api-key:<fingerprint>, slack:<user id>, webhook:<source>, connector:<name> or system
+  actor: string
+  // The HTTP route (`PATCH /api/feedback/:id`), or `cron` / `internal`
+  route: string
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'run'
+
+export type AuditEntityType = 'feedback' | 'triage' | 'account' | 'taxonomy' | 'admin'
+
+export type AuditChanges = Record<string, { before: unknown, after: unknown }>
+
+export interface AuditRecord {
+  action: AuditAction
+  entity_type: AuditEntityType
+  entity_id: string
+  changes?: AuditChanges
+  // What an admin action did (counts, results)
+  details?: unknown
+}
+
+export interface AuditEntry extends AuditContext {
+  id: number
+  created_at: string
+  action: AuditAction
+  entity_type: AuditEntityType
+  entity_id: string
+  changes: AuditChanges
+  details: unknown
+}
+
+export interface AuditFilters {
+  actor?: string
+  action?: string
+  entity_type?: string
+  entity_id?: string
+  route?: string
+  from?: string
+  to?: string
+}
+
+export interface AuditPage {
+  entries: AuditEntry[]
+  // Pass as ?cursor= for older entries; null on the last page
+  next_cursor: string | null
+}
+
+// Changes made by the worker itself: fixture seeding, background jobs
+export const SYSTEM_AUDIT: AuditContext = { actor: 'system', route: 'internal' }
+export const CRON_AUDIT: AuditContext = { actor: 'system', route: 'cron' }
+
+// Fields that differ between two flat records; the missing side of a create or delete is null
+export function diffRecords(before: Record<string, unknown> | null, after: Record<string, unknown> | null): AuditChanges {
+  const changes: AuditChanges = {}
+  for (const key of new Set([...Object.keys(before || {}), ...Object.keys(after || {})])) {
+    const was = before?.[key] ?? null
+    const now = after?.[key] ?? null
+    if (JSON.stringify(was) !== JSON.stringify(now)) changes[key] = { before: was, after: now }
+  }
+  return changes
+}
+
+export function parseAuditFilters(query: Record<string, string | undefined>): AuditFilters {
+  const filters: AuditFilters = {}
+  for (const key of ['actor', 'action', 'entity_type', 'entity_id', 'route'] as const) {
+    if (query[key]) filters[key] = query[key]
+  }
+  if (query.from && !isNaN(Date.parse(query.from))) filters.from = new Date(query.from).toISOString()
+  if (query.to && !isNaN(Date.parse(query.to))) filters.to = new Date(query.to).toISOString()
+  return filters
+}
+
+// The append-only audit_log table (UPDATE and DELETE are rejected by triggers)
+export class AuditLog {
+  private freeTierManager = FreeTierManager.getInstance()
+
+  // One INSERT for all records, for callers to add to their own D1 batch so the entries
+  // commit together with the change they describe
+  insertStatement(records: AuditRecord[], context: AuditContext, env: any): any {
+    const rows = records.map(record => [
+      record.action,
+      record.entity_type,
+      record.entity_id,
+      JSON.stringify(record.changes || {}),
+      record.details === undefined ? null : JSON.stringify(record.details)
+    ])
+
+    return env.FEEDBACK_DB.prepare(`
+      INSERT INTO audit_log (created_at, actor, route, action, entity_type, entity_id, changes, details)
+      SELECT ?, ?, ?, json_extract(value, '$[0]'), json_extract(value, '$[1]'), json_extract(value, '$[2]'),
+             json_extract(value, '$[3]'), json_extract(value, '$[4]')
+      FROM json_each(?)
+    `).bind(new Date().toISOString(), context.actor, context.route, JSON.stringify(rows))
+  }
+
+  async record(records: AuditRecord[], context: AuditContext, env: any): Promise<void> {
+    if (records.length === 0) return
+    await this.insertStatement(records, context, env).run()
+    this.freeTierManager.recordD1RowsWritten(records.length)
+  }
+
+  // Newest first. `cursor` is the next_cursor of the previous page.
+  async list(filters: AuditFilters, page: { cursor?: string, limit?: number }, env: any): Promise<AuditPage> {
+    const limit = Math.min(Math.max(page.limit || 50, 1), conservativeDB.maxResults)
+    const conditions: string[] = []
+    const binds: any[] = []
+
+    for (const key of ['actor', 'action', 'entity_type', 'entity_id', 'route'] as const) {
+      if (filters[key]) {
+        conditions.push(`${key} = ?`)
+        binds.push(filters[key])
+      }
+    }
+    if (filters.from) {
+      conditions.push('created_at >= ?')
+      binds.push(filters.from)
+    }
+    if (filters.to) {
+      conditions.push('created_at <= ?')
+      binds.push(filters.to)
+    }
+    if (page.cursor) {
+      if (!/^\d+$/.test(page.cursor)) throw new Error('Invalid cursor')
+      conditions.push('id < ?')
+      binds.push(Number(page.cursor))
+    }
+
+    // One extra row tells us whether another page follows
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT id, created_at, actor, route, action, entity_type, entity_id, changes, details
+      FROM audit_log
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY id DESC
+      LIMIT ?
+    `).bind(...binds, limit + 1).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    const entries: AuditEntry[] = rows.slice(0, limit).map(row => ({
+      ...row,
+      changes: JSON.parse(row.changes),
+      details: row.details === null ? null : JSON.parse(row.details)
+    }))
+
+    return {
+      entries,
+      next_cursor: rows.length > limit ? String(entries[entries.length - 1].id) : null
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import type { MiddlewareHandler } from 'hono'
+import type { Env } from './index'
+import { sha256Hex, timingSafeEqual } from './crypto-utils'
+
+export interface AppVariables {
+  // Who is making the request, e.g. `api-key:1a2b3c4d` or `slack:U123ABC`
+  actor: string
+}
+
+type ApiKeyBinding = 'FEEDBACK_API_KEY' | 'ADMIN_API_KEY'
+
+// Bearer-token auth for internal tooling. The key itself is never logged;
+// the actor is a short fingerprint of it so requests stay attributable.
+export function requireApiKey(binding: ApiKeyBinding): MiddlewareHandler<{ Bindings: Env, Variables: AppVariables }> {
+  return async (c, next) => {
+    const expected = c.env[binding]
+    if (!expected) {
+      return c.json({ error: `${binding} is not configured` }, 503)
+    }
+
+    const header = c.req.header('Authorization') || ''
+    const provided = header.startsWith('Bearer ') ? header.slice(7).trim() : ''
+
+    if (!provided || !timingSafeEqual(provided, expected)) {
+      return c.json({ error: 'Invalid or missing API key' }, 401)
+    }
+
+    const fingerprint = (await sha256Hex(provided)).slice(0, 8)
+    c.set('actor', `api-key:${fingerprint}`)
+    await next()
+  }
+}
@@ -0,0 +1,152 @@
+import { FeedbackAggregator, FeedbackItem } from './feedback-aggregator'
+import { FreeTierManager } from './free-tier-optimizations'
+
+export interface ConnectorPage {
+  items: FeedbackItem[]
+  // Cursor to resume from after this page has been stored
+  nextCursor: string | null
+  hasMore: boolean
+}
+
+// Pull-based source for systems that can't push webhooks
+export interface PullConnector {
+  name: string
+  isConfigured(env: any): boolean
+  fetchSince(cursor: string | null, env: any): Promise<ConnectorPage>
+  // Whether a stored row with the same source id is this item; any is when not implemented
+  isSameItem?(existing: FeedbackItem, item: FeedbackItem): boolean
+}
+
+export interface ConnectorState {
+  name: string
+  cursor: string | null
+  last_run_at: string | null
+  last_success_at: string | null
+  last_status: 'ok' | 'partial' | 'budget_paused' | 'error' | null
+  last_error: string | null
+  items_last_run: number
+  items_total: number
+}
+
+// Pages per connector per cron tick, to stay well inside the Worker CPU limit
+const MAX_PAGES_PER_RUN = 5
+
+// Runs every registered connector from the scheduled() handler, persisting cursors in
+// D1 so each tick resumes where the previous one stopped
+export class ConnectorScheduler {
+  private freeTierManager = FreeTierManager.getInstance()
+  private feedbackAggregator = new FeedbackAggregator()
+
+  constructor(private connectors: PullConnector[]) {}
+
+  async runAll(env: any): Promise<ConnectorState[]> {
+    const results: ConnectorState[] = []
+
+    for (const connector of this.connectors) {
+      if (!connector.isConfigured(env)) continue
+      results.push(await this.runConnector(connector, env))
+    }
+
+    return results
+  }
+
+  async runConnector(connector: PullConnector, env: any): Promise<ConnectorState> {
+    const state = await this.getState(connector.name, env)
+    const startedAt = new Date().toISOString()
+    let cursor = state.cursor
+    let ingested = 0
+    let status: ConnectorState['last_status'] = 'ok'
+    let lastError: string | null = null
+
+    try {
+      for (let page = 0; page < MAX_PAGES_PER_RUN; page++) {
+        // Each item costs a lookup plus a write; stop before the budget runs out and resume next tick
+        if (!this.freeTierManager.canReadFromD1(1) || !this.freeTierManager.canWriteToD1(1)) {
+          status = 'budget_paused'
+          break
+        }
+
+        const result = await connector.fetchSince(cursor, env)
+
+        if (result.items.length > 0) {
+          if (!this.freeTierManager.canWriteToD1(result.items.length)) {
+            status = 'budget_paused'
+            break
+          }
+
+          await this.feedbackAggregator.upsertBySource(
+            result.items,
+            env,
+            { actor: `connector:${connector.name}`, route: 'cron' },
+            connector.isSameItem?.bind(connector)
+          )
+          // Writes are recorded by storeFeedbackBatch; the per-item source lookups are reads
+          this.freeTierManager.recordD1RowsRead(result.items.length)
+          ingested += result.items.length
+        }
+
+        cursor = result.nextCursor ?? cursor
+        if (!result.hasMore) break
+        if (page === MAX_PAGES_PER_RUN - 1) status = 'partial'
+      }
+    } catch (error: unknown) {
+      status = 'error'
+      lastError = error instanceof Error ? error.message : String(error)
+      console.error(`Connector ${connector.name} failed:`, lastError)
+    }
+
+    const updated: ConnectorState = {
+      name: connector.name,
+      cursor,
+      last_run_at: startedAt,
+      last_success_at: status === 'error' ? state.last_success_at : startedAt,
+      last_status: status,
+      last_error: lastError,
+      items_last_run: ingested,
+      items_total: state.items_total + ingested
+    }
+    await this.saveState(updated, env)
+
+    return updated
+  }
+
+  // Health view for the admin route: every registered connector, run or not
+  async getHealth(env: any): Promise<Array<ConnectorState & { configured: boolean }>> {
+    return Promise.all(this.connectors.map(async connector => ({
+      ...(await this.getState(connector.name, env)),
+      configured: connector.isConfigured(env)
+    })))
+  }
+
+  private async getState(name: string, env: any): Promise<ConnectorState> {
+    const row = await env.FEEDBACK_DB.prepare('SELECT * FROM connector_state WHERE name = ?').bind(name).first()
+
+    return row || {
+      name,
+      cursor: null,
+      last_run_at: null,
+      last_success_at: null,
+      last_status: null,
+      last_error: null,
+      items_last_run: 0,
+      items_total: 0
+    }
+  }
+
+  private async saveState(state: ConnectorState, env: any): Promise<void> {
+    await env.FEEDBACK_DB.prepare(`
+      INSERT OR REPLACE INTO connector_state (
+        name, cursor, last_run_at, last_success_at, last_status, last_error, items_last_run, items_total
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      state.name,
+      state.cursor,
+      state.last_run_at,
+      state.last_success_at,
+      state.last_status,
+      state.last_error,
+      state.items_last_run,
+      state.items_total
+    ).run()
+  }
+}
@@ -0,0 +1,42 @@
+// Small Web Crypto helpers shared by API key auth and webhook signature checks
+
+const encoder = new TextEncoder()
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  let binary = ''
+  new Uint8Array(buffer).forEach(b => { binary += String.fromCharCode(b) })
+  return btoa(binary)
+}
+
+async function hmacSha256(key: string | Uint8Array, payload: string): Promise<ArrayBuffer> {
+  const keyData = typeof key === 'string' ? encoder.encode(key) : key
+  const cryptoKey = await crypto.subtle.importKey('raw', keyData, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(payload))
+}
+
+export async function hmacSha256Hex(key: string | Uint8Array, payload: string): Promise<string> {
+  return toHex(await hmacSha256(key, payload))
+}
+
+export async function hmacSha256Base64(key: string | Uint8Array, payload: string): Promise<string> {
+  return toBase64(await hmacSha256(key, payload))
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(value)))
+}
+
+// Constant-time comparison so signature checks don't leak timing information
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
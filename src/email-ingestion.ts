@@ -0,0 +1,171 @@
+import PostalMime, { Address, Email } from 'postal-mime'
+import { FeedbackAggregator, FeedbackItem } from './feedback-aggregator'
+import { normalizeRecord, normalizeThread } from './source-normalizers'
+import type { WebhookResult } from './github-connector'
+import type { AuditContext } from './audit-log'
+
+// How changes from Email Routing appear in the audit log
+const AUDIT: AuditContext = { actor: 'webhook:email', route: 'email' }
+
+// Anything bigger is almost certainly an attachment dump, not feedback
+const MAX_EMAIL_BYTES = 5 * 1024 * 1024
+
+// Lines that start the quoted part of a reply in common mail clients
+const REPLY_SEPARATORS = [
+  /^On .+wrote:\s*$/i,                     // Gmail / Apple Mail
+  /^-{2,}\s*Original Message\s*-{2,}/i,    // Outlook
+  /^-{2,}\s*Forwarded message\s*-{2,}/i,
+  /^_{10,}\s*$/,                           // Outlook web separator
+  /^From:\s.+$/i                           // Outlook header block ("From: ... Sent: ...")
+]
+
+// Turns inbound mail (via the Workers email() handler) into `email` feedback shaped
+// like data/emails.json. Replies fold into the original item's metadata.replies.
+export class EmailIngestion {
+  private feedbackAggregator = new FeedbackAggregator()
+
+  async handleMessage(message: ForwardableEmailMessage, env: any): Promise<WebhookResult> {
+    if (message.rawSize > MAX_EMAIL_BYTES) {
+      message.setReject('Message too large')
+      return { status: 'ignored', reason: 'Message too large' }
+    }
+
+    const email = await PostalMime.parse(message.raw)
+    return this.ingestParsedEmail(email, message.from, env)
+  }
+
+  async ingestParsedEmail(email: Email, envelopeFrom: string, env: any): Promise<WebhookResult> {
+    const messageId = this.cleanMessageId(email.messageId) || `generated-${crypto.randomUUID()}`
+    const sender = this.flattenAddresses(email.from ? [email.from] : [])[0]
+    const authorEmail = sender?.address || envelopeFrom
+    const author = sender?.name || authorEmail
+    const body = this.stripQuotedReply(email.text || this.htmlToText(email.html || ''))
+    const createdAt = email.date || new Date().toISOString()
+
+    // Redelivery of a message we already hold
+    if (await this.findThreadItem([messageId], env)) {
+      return { status: 'ignored', reason: `Message ${messageId} already ingested` }
+    }
+
+    const threadIds = [
+      ...this.parseMessageIds(email.references),
+      ...this.parseMessageIds(email.inReplyTo)
+    ]
+    const original = threadIds.length > 0 ? await this.findThreadItem(threadIds, env) : null
+
+    if (original) {
+      const replies = normalizeThread(original.metadata.replies)
+      replies.push(...normalizeThread([{ id: messageId, author, content: body, created_at: createdAt }]))
+
+      original.metadata.replies = replies
+      original.metadata.thread_message_ids = [...new Set([...(original.metadata.thread_message_ids || []), messageId])]
+
+      await this.feedbackAggregator.processFeedbackDirectly([original], env, AUDIT)
+      return { status: 'updated', id: original.id }
+    }
+
+    const item = normalizeRecord({
+      source_type: 'email',
+      source_id: messageId,
+      title: this.stripSubjectPrefixes(email.subject || '(no subject)'),
+      content: body,
+      author,
+      author_email: authorEmail,
+      created_at: createdAt,
+      metadata: {
+        subject: email.subject,
+        from: authorEmail,
+        to: this.flattenAddresses(email.to).map(a => a.address).join(', '),
+        cc: this.flattenAddresses(email.cc).map(a => a.address),
+        attachments: email.attachments
+          .filter(attachment => attachment.disposition !== 'inline' && attachment.filename)
+          .map(attachment => attachment.filename as string),
+        priority: this.extractPriority(email)
+      }
+    })
+    item.metadata.message_id = messageId
+    item.metadata.thread_message_ids = [messageId]
+    item.metadata.replies = []
+
+    await this.feedbackAggregator.processFeedbackDirectly([item], env, AUDIT)
+    return { status: 'created', id: item.id }
+  }
+
+  // Keep only the new text of a reply so quoted history doesn't skew keyword and sentiment analysis
+  stripQuotedReply(text: string): string {
+    const kept: string[] = []
+
+    for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+      const trimmed = line.trim()
+      if (REPLY_SEPARATORS.some(pattern => pattern.test(trimmed)) && kept.some(l => l.trim() !== '')) break
+      if (trimmed.startsWith('>')) continue
+      kept.push(line)
+    }
+
+    return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim()
+  }
+
+  private async findThreadItem(messageIds: string[], env: any): Promise<FeedbackItem | null> {
+    // One JSON parameter, as a long thread's References would exceed D1's bound-parameter limit
+    const row = await env.FEEDBACK_DB.prepare(`
+      SELECT id FROM feedback
+      WHERE source_type = 'email'
+        AND EXISTS (
+          SELECT 1 FROM json_each(feedback.metadata, '$.thread_message_ids')
+          WHERE json_each.value IN (SELECT value FROM json_each(?))
+        )
+      ORDER BY created_at ASC
+      LIMIT 1
+    `).bind(JSON.stringify(messageIds)).first()
+
+    return row ? this.feedbackAggregator.getFeedbackById(row.id, env) : null
+  }
+
+  // X-Priority (1-5), Importance (high/normal/low) and Priority (urgent/normal/non-urgent)
+  private extractPriority(email: Email): string {
+    const header = (name: string) => email.headers.find(h => h.key === name)?.value.trim().toLowerCase() || ''
+
+    const xPriority = parseInt(header('x-priority'), 10)
+    if (!isNaN(xPriority)) return xPriority <= 2 ? 'high' : xPriority >= 4 ? 'low' : 'normal'
+
+    const importance = header('importance') || header('x-msmail-priority')
+    if (importance === 'high' || importance === 'low') return importance
+
+    const priority = header('priority')
+    if (priority === 'urgent') return 'high'
+    if (priority === 'non-urgent') return 'low'
+
+    return 'normal'
+  }
+
+  private flattenAddresses(addresses: Address[] | undefined): Array<{ name: string, address: string }> {
+    return (addresses || []).flatMap(entry =>
+      entry.group ? entry.group : entry.address ? [{ name: entry.name, address: entry.address }] : []
+    )
+  }
+
+  private parseMessageIds(value: string | undefined): string[] {
+    return (value || '').split(/\s+/).map(id => this.cleanMessageId(id)).filter((id): id is string => Boolean(id))
+  }
+
+  private cleanMessageId(value: string | undefined): string | undefined {
+    const id = (value || '').trim().replace(/^<|>$/g, '')
+    return id || undefined
+  }
+
+  private stripSubjectPrefixes(subject: string): string {
+    return subject.replace(/^((re|fw|fwd|aw)\s*:\s*)+/i, '').trim() || subject
+  }
+
+  private htmlToText(html: string): string {
+    return html
+      .replace(/<(style|script)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, '')
+      .replace(/<br\s*\/?>|<\/p>|<\/div>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+  }
+}
@@ -0,0 +1,196 @@
+import { tokenize } from './feedback-clustering'
+import { FreeTierManager, conservativeAI } from './free-tier-optimizations'
+
+// The slice of the Workers AI binding embeddings need
+export interface AiBinding {
+  run(model: string, input: any): Promise<any>
+}
+
+// Turns texts into unit-length vectors, one per text, in order
+export interface EmbeddingProvider {
+  model: string
+  // Whether calls count against the Workers AI token budget
+  metered: boolean
+  embed(texts: string[]): Promise<number[][]>
+}
+
+// The prompt-safe text an item is embedded from
+export interface EmbeddingInput {
+  id: string
+  text: string
+  // Hash of the text behind the stored vector, null when there is none
+  stored_hash: string | null
+}
+
+export interface StoredVector {
+  id: string
+  text_hash: string
+  vector: number[]
+}
+
+// Where vectors live, per embedding model (vectors from different models don't mix)
+export interface VectorStore {
+  // Items with no vector under `model`, or re-enriched since theirs was written
+  pending(model: string, limit: number): Promise<EmbeddingInput[]>
+  upsert(model: string, vectors: StoredVector[]): Promise<void>
+  // Marks vectors current when re-enrichment left the text as it was
+  touch(model: string, ids: string[]): Promise<void>
+  all(model: string): Promise<StoredVector[]>
+  count(model: string): Promise<number>
+}
+
+// Inputs beyond this are cut; bge models read at most 512 tokens
+const MAX_TEXT_LENGTH = 2000
+
+export const LOCAL_DIMENSIONS = 256
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm > 0 ? vector.map(value => value / norm) : vector
+}
+
+// FNV-1a, for bucketing tokens in the local stand-in
+function hash32(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export function embeddingText(title: string, content: string): string {
+  return `${title}\n${content}`.slice(0, MAX_TEXT_LENGTH)
+}
+
+// Text embeddings from Workers AI
+export class WorkersAIEmbeddings implements EmbeddingProvider {
+  model = conservativeAI.getModelForTask('embedding')
+  metered = true
+
+  constructor(private ai: AiBinding) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.ai.run(this.model, { text: texts })
+    const vectors: number[][] = response?.data || []
+    if (vectors.length !== texts.length) {
+      throw new Error(`Embedding model returned ${vectors.length} vectors for ${texts.length} texts`)
+    }
+    return vectors.map(normalize)
+  }
+}
+
+// Deterministic stand-in without a model: hashed bag of words (the duplicate clustering's
+// tokens), for local runs and tests. Similar wording gives similar vectors, nothing more.
+export class HashingEmbeddings implements EmbeddingProvider {
+  model = `local/hashing-${LOCAL_DIMENSIONS}`
+  metered = false
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array(LOCAL_DIMENSIONS).fill(0)
+      for (const token of tokenize(text)) {
+        const hash = hash32(token)
+        vector[hash % LOCAL_DIMENSIONS] += hash & 0x80000000 ? -1 : 1
+      }
+      return normalize(vector)
+    })
+  }
+}
+
+// feedback_embeddings; text comes from feedback_enrichment's redacted copy, never the original
+export class D1VectorStore implements VectorStore {
+  private freeTierManager = FreeTierManager.getInstance()
+
+  constructor(private db: any) {}
+
+  async pending(model: string, limit: number): Promise<EmbeddingInput[]> {
+    const result = await this.db.prepare(`
+      SELECT e.feedback_id AS id, e.redacted_title, e.redacted_content, v.text_hash AS stored_hash
+      FROM feedback_enrichment e
+      LEFT JOIN feedback_embeddings v ON v.feedback_id = e.feedback_id AND v.model = ?
+      WHERE e.redacted_title IS NOT NULL AND (v.feedback_id IS NULL OR v.embedded_at < e.enriched_at)
+      LIMIT ?
+    `).bind(model, limit).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    return rows.map(row => ({
+      id: row.id,
+      text: embeddingText(row.redacted_title, row.redacted_content || ''),
+      stored_hash: row.stored_hash
+    }))
+  }
+
+  async upsert(model: string, vectors: StoredVector[]): Promise<void> {
+    if (vectors.length === 0) return
+    // Six decimals is plenty for cosine similarity and keeps rows small
+    const rows = vectors.map(({ id, text_hash, vector }) => [id, text_hash, JSON.stringify(vector.map(value => Math.round(value * 1e6) / 1e6))])
+
+    await this.db.prepare(`
+      INSERT INTO feedback_embeddings (feedback_id, model, text_hash, vector, embedded_at)
+      SELECT json_extract(value, '$[0]'), ?, json_extract(value, '$[1]'), json_extract(value, '$[2]'), ?
+      FROM json_each(?) WHERE true
+      ON CONFLICT (feedback_id, model) DO UPDATE SET
+        text_hash = excluded.text_hash,
+        vector = excluded.vector,
+        embedded_at = excluded.embedded_at
+    `).bind(model, new Date().toISOString(), JSON.stringify(rows)).run()
+    this.freeTierManager.recordD1RowsWritten(vectors.length)
+  }
+
+  async touch(model: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+    await this.db.prepare(`
+      UPDATE feedback_embeddings SET embedded_at = ?
+      WHERE model = ? AND feedback_id IN (SELECT value FROM json_each(?))
+    `).bind(new Date().toISOString(), model, JSON.stringify(ids)).run()
+    this.freeTierManager.recordD1RowsWritten(ids.length)
+  }
+
+  async all(model: string): Promise<StoredVector[]> {
+    const result = await this.db.prepare(`
+      SELECT feedback_id AS id, text_hash, vector FROM feedback_embeddings WHERE model = ? ORDER BY feedback_id
+    `).bind(model).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    return rows.map(row => ({ id: row.id, text_hash: row.text_hash, vector: JSON.parse(row.vector) }))
+  }
+
+  async count(model: string): Promise<number> {
+    const row = await this.db.prepare('SELECT COUNT(*) AS count FROM feedback_embeddings WHERE model = ?').bind(model).first()
+    return row?.count || 0
+  }
+}
+
+// In-memory store over a fixed set of texts, for tests
+export class MemoryVectorStore implements VectorStore {
+  private vectors = new Map<string, Map<string, StoredVector>>()
+
+  constructor(private texts: Map<string, string>) {}
+
+  async pending(model: string, limit: number): Promise<EmbeddingInput[]> {
+    const stored = this.vectors.get(model) || new Map()
+    return [...this.texts.entries()]
+      .filter(([id]) => !stored.has(id))
+      .slice(0, limit)
+      .map(([id, text]) => ({ id, text, stored_hash: null }))
+  }
+
+  async upsert(model: string, vectors: StoredVector[]): Promise<void> {
+    const stored = this.vectors.get(model) || new Map()
+    vectors.forEach(vector => stored.set(vector.id, vector))
+    this.vectors.set(model, stored)
+  }
+
+  async touch(): Promise<void> {}
+
+  async all(model: string): Promise<StoredVector[]> {
+    return [...(this.vectors.get(model)?.values() || [])].sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  async count(model: string): Promise<number> {
+    return this.vectors.get(model)?.size || 0
+  }
+}
@@ -1,6 +1,22 @@
 import { FreeTierManager, conservativeAI, conservativeDB, conservativeCache } from './free-tier-optimizations'
-
-interface FeedbackItem {
+import { loadFixtureFeedback } from './fixture-loader'
+import { normalizeThread } from './source-normalizers'
+import { ACCOUNT_RULE_MATCH, FeedbackFilters, buildFeedbackWhere, decodeCursor, encodeCursor } from './feedback-query'
+import { CLOSED_STATUSES, TriageState } from './feedback-triage'
+import { PII_METADATA_KEYS, promptCopy, redactText } from './pii-redaction'
+import { AuditContext, AuditLog, AuditRecord, SYSTEM_AUDIT, diffRecords } from './audit-log'
+import {
+  ENRICHMENT_RULES_VERSION,
+  ENRICHMENT_UPSERT,
+  enrichmentBinds
+} from './feedback-enrichment'
+import { LEXICON_METHOD, Sentiment, WEIGHTED_SENTIMENT, sentimentLabel } from './feedback-sentiment'
+import { Anomaly, AnomalyDetector } from './anomaly-detector'
+import { FeedbackThemes } from './feedback-themes'
+import { SeverityFactor, SeverityModel, loadSeverityModel } from './severity-model'
+import { Taxonomy, TaxonomyStore } from './taxonomy'
+
+export interface FeedbackItem {
   id: string
   source_type: string
   source_id: string
@@ -9,20 +25,137 @@ interface FeedbackItem {
   author: string
   created_at: string
   metadata: any
+  // Set by FeedbackClustering; items reporting the same issue share it
+  cluster_id?: string | null
+}
+
+// metadata keys whose threads live in feedback_messages, and the `kind` they're stored under
+const THREAD_KINDS: Record<string, string> = {
+  comments: 'comment',
+  replies: 'reply'
+}
+
+// An item as the audit log records it: row fields and top-level metadata with free text
+// redacted and personal keys masked (the log is append-only, so it must not keep what the
+// retention policy removes), and non-empty threads by length
+function auditFields(item: FeedbackItem): Record<string, unknown> {
+  const names = [item.author]
+  const redact = (value: unknown) => typeof value === 'string' ? redactText(value, names).text : value
+  const fields: Record<string, unknown> = {
+    source_type: item.source_type,
+    source_id: item.source_id,
+    title: redact(item.title),
+    content: redact(item.content),
+    author: redact(item.author),
+    created_at: item.created_at
+  }
+
+  for (const [key, value] of Object.entries(item.metadata || {})) {
+    if (key in THREAD_KINDS) continue
+    fields[`metadata.${key}`] = PII_METADATA_KEYS.includes(key) ? '[REDACTED]' : redact(value)
+  }
+  for (const key of Object.keys(THREAD_KINDS)) {
+    const length = normalizeThread(item.metadata?.[key]).length
+    if (length > 0) fields[key] = length
+  }
+
+  return fields
+}
+
+// Columns for reading whole items: the row plus its comments/replies as a JSON array
+export const FEEDBACK_COLUMNS = `
+  id, source_type, source_id, title, content, author, created_at, metadata, cluster_id,
+  (
+    SELECT json_group_array(json_object(
+      'kind', kind, 'id', external_id, 'author', author, 'content', content, 'created_at', created_at
+    ))
+    FROM (SELECT * FROM feedback_messages WHERE feedback_id = feedback.id ORDER BY kind, position)
+  ) AS messages
+`
+
+// The stored enrichment fields worth showing next to an item, as a JSON object (null until enriched)
+const ENRICHMENT_COLUMN = `
+  (
+    SELECT json_object('severity', severity, 'severity_breakdown', json(severity_breakdown), 'categories', json(categories),
+                       'sentiment', sentiment, 'sentiment_score', sentiment_score,
+                       'sentiment_confidence', sentiment_confidence, 'sentiment_method', sentiment_method,
+                       'pii', json(pii))
+    FROM feedback_enrichment WHERE feedback_id = feedback.id
+  ) AS enrichment
+`
+
+// Triage state as a JSON object; items never triaged are `new`
+const TRIAGE_COLUMN = `
+  COALESCE((
+    SELECT json_object('status', status, 'assignee', assignee, 'resolution', resolution,
+                       'updated_at', updated_at, 'updated_by', updated_by)
+    FROM feedback_triage WHERE feedback_id = feedback.id
+  ), json_object('status', 'new')) AS triage
+`
+
+// Accounts the item belongs to through account_rules (usually one)
+const ACCOUNTS_COLUMN = `
+  (
+    SELECT json_group_array(json_object('id', a.id, 'name', a.name))
+    FROM accounts a
+    WHERE a.id IN (SELECT r.account_id FROM account_rules r WHERE ${ACCOUNT_RULE_MATCH})
+  ) AS accounts
+`
+
+export interface FeedbackDetail extends FeedbackItem {
+  enrichment: {
+    severity: number
+    severity_breakdown: SeverityFactor[]
+    categories: string[]
+    sentiment: Sentiment
+    sentiment_score: number
+    sentiment_confidence: number
+    // lexicon, or the Workers AI model that scored the item
+    sentiment_method: string
+    pii: string[]
+  } | null
+  triage: Partial<TriageState>
+  accounts: { id: string, name: string }[]
+}
+
+export interface FeedbackPage {
+  items: FeedbackDetail[]
+  next_cursor: string | null
 }
 
 interface FeedbackSummary {
   totalItems: number
+  // Same counts after collapsing duplicates reported across sources into one issue
+  uniqueIssues: number
   sources: string[]
   dateRange: string
   topCategories: string[]
+  // Positive, Negative or Neutral, from sentimentScore
   averageSentiment: string
+  // Every item's score (-1 to 1) averaged, weighted by its confidence
+  sentimentScore: number
+  // Items scored by the model rather than the lexicon
+  modelScoredItems: number
   criticalIssues: number
+  uniqueCriticalIssues: number
   featureRequests: number
+  uniqueFeatureRequests: number
+}
+
+// An open critical issue and why it ranks where it does
+export interface CriticalIssue {
+  id: string
+  // Redacted, since insights end up in prompts
+  title: string
+  source_type: string
+  severity: number
+  severity_breakdown: SeverityFactor[]
 }
 
 interface FeedbackInsights {
-  criticalIssues: string[]
+  criticalIssues: CriticalIssue[]
+  // Categories and sources unusually busy (or quiet) this week, with the items behind each spike
+  anomalies: Anomaly[]
   trendingTopics: string[]
   recommendations: string[]
   priorityActions: string[]
@@ -30,20 +163,22 @@ interface FeedbackInsights {
 
 export class FeedbackAggregator {
   private freeTierManager = FreeTierManager.getInstance()
+  private auditLog = new AuditLog()
+  private taxonomyStore = new TaxonomyStore()
+  private anomalyDetector = new AnomalyDetector()
+  private feedbackThemes = new FeedbackThemes()
 
   async getSummary(env: any): Promise<FeedbackSummary> {
     // Check cache first
-    const cacheKey = 'feedback:summary'
+    const cacheKey = conservativeCache.keyPatterns.summary
     const cached = await env.CACHE.get(cacheKey)
     if (cached) {
       return JSON.parse(cached)
     }
 
-    // Aggregate data from all sources
-    const allFeedback = await this.aggregateAllFeedback(env)
-
-    // Analyze feedback
-    const summary = await this.analyzeFeedbackSummary(allFeedback, env)
+    // Aggregate the per-item enrichment in D1
+    await this.ensureFeedback(env)
+    const summary = await this.analyzeFeedbackSummary(env)
 
     // Cache result
     await env.CACHE.put(cacheKey, JSON.stringify(summary), { expirationTtl: conservativeCache.summaryTTL })
@@ -53,14 +188,14 @@ export class FeedbackAggregator {
 
   async getInsights(env: any): Promise<FeedbackInsights> {
     // Check cache first
-    const cacheKey = 'feedback:insights:v2' // Updated cache key to force refresh
+    const cacheKey = conservativeCache.keyPatterns.insights
     const cached = await env.CACHE.get(cacheKey)
     if (cached) {
       return JSON.parse(cached)
     }
 
-    const allFeedback = await this.aggregateAllFeedback(env)
-    const insights = await this.generateInsights(allFeedback, env)
+    await this.ensureFeedback(env)
+    const insights = await this.generateInsights(env)
 
     // Cache result
     await env.CACHE.put(cacheKey, JSON.stringify(insights), { expirationTtl: conservativeCache.insightsTTL })
@@ -68,33 +203,322 @@ export class FeedbackAggregator {
     return insights
   }
 
-  async processFeedbackDirectly(feedbackBatch: FeedbackItem[], env: any): Promise<void> {
+  async processFeedbackDirectly(feedbackBatch: FeedbackItem[], env: any, audit: AuditContext = SYSTEM_AUDIT): Promise<string[]> {
     // Store feedback in D1 directly (no queue)
-    const stmt = env.FEEDBACK_DB.prepare(`
-      INSERT OR REPLACE INTO feedback (
+    await this.storeFeedbackBatch(feedbackBatch, env, audit)
+    await this.invalidateCaches(env)
+
+    return feedbackBatch.map(item => item.id)
+  }
+
+  // Write items in conservativeDB.batchSize chunks, one D1 batch (a single round trip) per chunk.
+  // Comments and replies go to feedback_messages; a thread is only replaced when the item
+  // carries it. feedback_enrichment is recomputed in the same batch for items carrying every
+  // thread; the rest are enriched afterwards from the stored conversation. Each new or changed
+  // item gets an audit_log entry (attributed to `audit`) in the same batch. Callers are
+  // responsible for cache invalidation.
+  async storeFeedbackBatch(feedbackBatch: FeedbackItem[], env: any, audit: AuditContext = SYSTEM_AUDIT): Promise<void> {
+    // Upsert rather than INSERT OR REPLACE: a replace deletes the row, cascading to its messages
+    const feedbackStmt = env.FEEDBACK_DB.prepare(`
+      INSERT INTO feedback (
         id, source_type, source_id, title, content, author, created_at, metadata, processed_at
       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        source_type = excluded.source_type,
+        source_id = excluded.source_id,
+        title = excluded.title,
+        content = excluded.content,
+        author = excluded.author,
+        created_at = excluded.created_at,
+        metadata = excluded.metadata,
+        processed_at = excluded.processed_at,
+        -- A fresh copy from upstream brings the PII back; the retention job anonymizes it again
+        anonymized_at = NULL,
+        -- Edited text may no longer match its cluster; leave it for the next rebuild
+        cluster_id = CASE
+          WHEN feedback.title = excluded.title AND feedback.content = excluded.content THEN feedback.cluster_id
+        END
+    `)
+    const clearThreadStmt = env.FEEDBACK_DB.prepare(`
+      DELETE FROM feedback_messages
+      WHERE feedback_id = ? AND kind IN (SELECT value FROM json_each(?))
     `)
+    const insertThreadStmt = env.FEEDBACK_DB.prepare(`
+      INSERT INTO feedback_messages (feedback_id, kind, position, external_id, author, content, created_at)
+      SELECT ?, json_extract(value, '$.kind'), json_extract(value, '$.position'), json_extract(value, '$.id'),
+             json_extract(value, '$.author'), json_extract(value, '$.content'), json_extract(value, '$.created_at')
+      FROM json_each(?)
+    `)
+
+    const enrichmentStmt = env.FEEDBACK_DB.prepare(ENRICHMENT_UPSERT)
+    const [taxonomy, severityModel] = await Promise.all([this.taxonomyStore.load(env), loadSeverityModel(env)])
 
     const processedAt = new Date().toISOString()
+    const partialIds: string[] = []
+
+    for (let i = 0; i < feedbackBatch.length; i += conservativeDB.batchSize) {
+      const chunk = feedbackBatch.slice(i, i + conservativeDB.batchSize)
+      const statements: any[] = []
+      const auditRecords: AuditRecord[] = []
+      let rowsWritten = 0
+
+      // The stored copies, for the audit diffs
+      const existingResult = await env.FEEDBACK_DB.prepare(`
+        SELECT ${FEEDBACK_COLUMNS} FROM feedback WHERE id IN (SELECT value FROM json_each(?))
+      `).bind(JSON.stringify(chunk.map(item => item.id))).all()
+      const existingRows: any[] = existingResult.results || []
+      this.freeTierManager.recordD1RowsRead(existingRows.length)
+      const existing = new Map(existingRows.map(row => [row.id, auditFields(this.mapRow(row))]))
+
+      chunk.forEach(item => {
+        const { metadata, kinds, messages } = this.splitThreads(item.metadata)
+
+        statements.push(feedbackStmt.bind(
+          item.id,
+          item.source_type,
+          item.source_id,
+          item.title,
+          item.content,
+          item.author,
+          item.created_at,
+          JSON.stringify(metadata),
+          processedAt
+        ))
+        if (kinds.length > 0) statements.push(clearThreadStmt.bind(item.id, JSON.stringify(kinds)))
+        if (messages.length > 0) statements.push(insertThreadStmt.bind(item.id, JSON.stringify(messages)))
+        rowsWritten += 1 + messages.length
+
+        // Enrichment covers the whole conversation, including threads kept from earlier writes
+        if (kinds.length === Object.keys(THREAD_KINDS).length) {
+          statements.push(enrichmentStmt.bind(...enrichmentBinds(item, taxonomy, severityModel, processedAt)))
+          rowsWritten++
+        } else {
+          partialIds.push(item.id)
+        }
+
+        const before = existing.get(item.id) || null
+        const after = auditFields(item)
+        // Threads the item doesn't carry are kept as stored
+        for (const key of Object.keys(THREAD_KINDS)) {
+          if (before?.[key] !== undefined && item.metadata?.[key] === undefined) after[key] = before[key]
+        }
+        const changes = diffRecords(before, after)
+        if (Object.keys(changes).length > 0) {
+          auditRecords.push({ action: before ? 'update' : 'create', entity_type: 'feedback', entity_id: item.id, changes })
+          // A repeated id in one batch diffs against its previous copy
+          existing.set(item.id, after)
+        }
+      })
+
+      if (auditRecords.length > 0) {
+        statements.push(this.auditLog.insertStatement(auditRecords, audit, env))
+        rowsWritten += auditRecords.length
+      }
 
-    for (const item of feedbackBatch) {
-      await stmt.bind(
-        item.id,
-        item.source_type,
-        item.source_id,
-        item.title,
-        item.content,
-        item.author,
-        item.created_at,
-        JSON.stringify(item.metadata),
-        processedAt
-      ).run()
+      await env.FEEDBACK_DB.batch(statements)
+      this.freeTierManager.recordD1RowsWritten(rowsWritten)
     }
 
-    // Invalidate caches
-    await env.CACHE.delete('feedback:summary')
-    await env.CACHE.delete('feedback:insights')
+    if (partialIds.length > 0) {
+      const result = await env.FEEDBACK_DB.prepare(`
+        SELECT ${FEEDBACK_COLUMNS} FROM feedback WHERE id IN (SELECT value FROM json_each(?))
+      `).bind(JSON.stringify(partialIds)).all()
+      const rows: any[] = result.results || []
+      this.freeTierManager.recordD1RowsRead(rows.length)
+      await this.writeEnrichment(rows.map(row => this.mapRow(row)), taxonomy, severityModel, env)
+    }
+  }
+
+  // Recompute feedback_enrichment for items enriched under older rules, another taxonomy or other
+  // severity weights, items whose recency points have expired, or items never enriched (rows that
+  // predate the table). Works through conservativeDB.maxResults items per pass until nothing is
+  // stale or the D1 write budget runs out.
+  async reenrichStale(env: any): Promise<{ enriched: number, remaining: boolean }> {
+    const [taxonomy, severityModel] = await Promise.all([this.taxonomyStore.load(env), loadSeverityModel(env)])
+    let enriched = 0
+    let remaining = false
+
+    while (true) {
+      if (!this.freeTierManager.canWriteToD1(conservativeDB.maxResults)) {
+        remaining = true
+        break
+      }
+
+      const recentSince = Math.floor(Date.now() / 1000) - severityModel.weights.recency.days * 24 * 60 * 60
+      const result = await env.FEEDBACK_DB.prepare(`
+        SELECT ${FEEDBACK_COLUMNS} FROM feedback
+        WHERE id NOT IN (
+            SELECT feedback_id FROM feedback_enrichment
+            WHERE rules_version = ? AND taxonomy_version = ? AND severity_version = ?
+          )
+          OR (created_at_timestamp < ? AND id IN (
+            SELECT e.feedback_id FROM feedback_enrichment e, json_each(e.severity_breakdown) b
+            WHERE json_extract(b.value, '$.factor') = 'recency'
+          ))
+        LIMIT ?
+      `).bind(ENRICHMENT_RULES_VERSION, taxonomy.version, severityModel.version, recentSince, conservativeDB.maxResults).all()
+      const items: FeedbackItem[] = (result.results || []).map((row: any) => this.mapRow(row))
+      this.freeTierManager.recordD1RowsRead(items.length)
+
+      await this.writeEnrichment(items, taxonomy, severityModel, env)
+      enriched += items.length
+      if (items.length < conservativeDB.maxResults) break
+    }
+
+    if (enriched > 0) await this.invalidateCaches(env)
+
+    return { enriched, remaining }
+  }
+
+  private async writeEnrichment(items: FeedbackItem[], taxonomy: Taxonomy, severityModel: SeverityModel, env: any): Promise<void> {
+    const stmt = env.FEEDBACK_DB.prepare(ENRICHMENT_UPSERT)
+    const enrichedAt = new Date().toISOString()
+
+    for (let i = 0; i < items.length; i += conservativeDB.batchSize) {
+      const chunk = items.slice(i, i + conservativeDB.batchSize)
+      await env.FEEDBACK_DB.batch(chunk.map(item => stmt.bind(...enrichmentBinds(item, taxonomy, severityModel, enrichedAt))))
+      this.freeTierManager.recordD1RowsWritten(chunk.length)
+    }
+  }
+
+  async getFeedbackById(id: string, env: any): Promise<FeedbackItem | null> {
+    const row = await env.FEEDBACK_DB.prepare(`
+      SELECT ${FEEDBACK_COLUMNS} FROM feedback WHERE id = ?
+    `).bind(id).first()
+
+    return row ? this.mapRow(row) : null
+  }
+
+  // One page of items, newest first. `cursor` is the opaque next_cursor of the previous page;
+  // next_cursor is null on the last page.
+  async listFeedback(filters: FeedbackFilters, page: { cursor?: string, limit?: number }, env: any): Promise<FeedbackPage> {
+    const limit = Math.min(Math.max(page.limit || 20, 1), conservativeDB.maxResults)
+    const { clause, binds } = buildFeedbackWhere(filters)
+
+    let pageClause = clause
+    const pageBinds = [...binds]
+    if (page.cursor) {
+      const position = decodeCursor(page.cursor)
+      if (!position) throw new Error('Invalid cursor')
+      pageClause += ' AND (created_at_timestamp, id) < (?, ?)'
+      pageBinds.push(...position)
+    }
+
+    // One extra row tells us whether another page follows
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT ${FEEDBACK_COLUMNS}, created_at_timestamp, ${ENRICHMENT_COLUMN}, ${TRIAGE_COLUMN}, ${ACCOUNTS_COLUMN}
+      FROM feedback
+      WHERE ${pageClause}
+      ORDER BY created_at_timestamp DESC, id DESC
+      LIMIT ?
+    `).bind(...pageBinds, limit + 1).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    const pageRows = rows.slice(0, limit)
+    const last = pageRows[pageRows.length - 1]
+
+    return {
+      items: pageRows.map(row => this.mapDetailRow(row)),
+      next_cursor: rows.length > limit ? encodeCursor(last.created_at_timestamp, last.id) : null
+    }
+  }
+
+  // One item as served by the API: the row plus its stored enrichment, triage state and accounts
+  async getFeedbackDetail(id: string, env: any): Promise<FeedbackDetail | null> {
+    const row = await env.FEEDBACK_DB.prepare(`
+      SELECT ${FEEDBACK_COLUMNS}, ${ENRICHMENT_COLUMN}, ${TRIAGE_COLUMN}, ${ACCOUNTS_COLUMN} FROM feedback WHERE id = ?
+    `).bind(id).first()
+
+    return row ? this.mapDetailRow(row) : null
+  }
+
+  private mapDetailRow(row: any): FeedbackDetail {
+    return {
+      ...this.mapRow(row),
+      enrichment: row.enrichment ? JSON.parse(row.enrichment) : null,
+      triage: JSON.parse(row.triage),
+      accounts: JSON.parse(row.accounts)
+    }
+  }
+
+  // Connectors identify items by their upstream id, so look rows up the same way
+  async findBySource(sourceType: string, sourceId: string, env: any): Promise<FeedbackItem[]> {
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT ${FEEDBACK_COLUMNS} FROM feedback WHERE source_type = ? AND source_id = ?
+    `).bind(sourceType, sourceId).all()
+
+    return (result.results || []).map((row: any) => this.mapRow(row))
+  }
+
+  // Insert items, or update the row that already holds the same upstream item (keeping its id
+  // and any metadata the new copy doesn't carry). `matches` tells rows apart when a source id
+  // is only unique within something else, like a GitHub repository.
+  async upsertBySource(
+    items: FeedbackItem[],
+    env: any,
+    audit: AuditContext = SYSTEM_AUDIT,
+    matches: (existing: FeedbackItem, item: FeedbackItem) => boolean = () => true
+  ): Promise<string[]> {
+    for (const item of items) {
+      const existing = (await this.findBySource(item.source_type, item.source_id, env)).find(row => matches(row, item))
+      if (existing) {
+        item.id = existing.id
+        item.metadata = { ...existing.metadata, ...item.metadata }
+      }
+    }
+
+    return this.processFeedbackDirectly(items, env, audit)
+  }
+
+  async deleteFeedback(id: string, env: any, audit: AuditContext = SYSTEM_AUDIT): Promise<boolean> {
+    const existing = await this.getFeedbackById(id, env)
+    if (!existing) return false
+
+    await env.FEEDBACK_DB.batch([
+      env.FEEDBACK_DB.prepare('DELETE FROM feedback_messages WHERE feedback_id = ?').bind(id),
+      env.FEEDBACK_DB.prepare('DELETE FROM feedback_enrichment WHERE feedback_id = ?').bind(id),
+      env.FEEDBACK_DB.prepare('DELETE FROM feedback_triage WHERE feedback_id = ?').bind(id),
+      env.FEEDBACK_DB.prepare('DELETE FROM feedback WHERE id = ?').bind(id),
+      ...this.themeRemovalStatements([id], env),
+      this.auditLog.insertStatement([{
+        action: 'delete',
+        entity_type: 'feedback',
+        entity_id: id,
+        changes: diffRecords(auditFields(existing), null)
+      }], audit, env)
+    ])
+    this.freeTierManager.recordD1RowsWritten(1)
+    await this.invalidateCaches(env)
+    return true
+  }
+
+  // Takes deleted items out of the stored themes (ids, size and representatives) so /api/themes
+  // stops listing them before the next regroup; themes left empty go
+  themeRemovalStatements(ids: string[], env: any): any[] {
+    return [
+      env.FEEDBACK_DB.prepare(`
+        WITH removed(id) AS (SELECT value FROM json_each(?))
+        UPDATE feedback_themes SET
+          item_ids = (SELECT json_group_array(value) FROM json_each(feedback_themes.item_ids) WHERE value NOT IN (SELECT id FROM removed)),
+          representatives = (
+            SELECT json_group_array(json(value)) FROM json_each(feedback_themes.representatives)
+            WHERE json_extract(value, '$.id') NOT IN (SELECT id FROM removed)
+          ),
+          size = (SELECT COUNT(*) FROM json_each(feedback_themes.item_ids) WHERE value NOT IN (SELECT id FROM removed))
+        WHERE EXISTS (SELECT 1 FROM json_each(feedback_themes.item_ids) WHERE value IN (SELECT id FROM removed))
+      `).bind(JSON.stringify(ids)),
+      env.FEEDBACK_DB.prepare('DELETE FROM feedback_themes WHERE size = 0')
+    ]
+  }
+
+  // Drop every cached view derived from the feedback table
+  async invalidateCaches(env: any): Promise<void> {
+    await Promise.all([
+      env.CACHE.delete(conservativeCache.keyPatterns.summary),
+      env.CACHE.delete(conservativeCache.keyPatterns.insights),
+      env.CACHE.delete(conservativeCache.keyPatterns.visualization)
+    ])
   }
 
   async aggregateAllFeedback(env: any): Promise<FeedbackItem[]> {
@@ -104,223 +528,39 @@ export class FeedbackAggregator {
       return dbFeedback
     }
 
-    // If DB is not ready, use mock data and try to store it
+    // If DB is empty or not ready, fall back to the fixtures in data/ and try to store them
     try {
+      const fixtureFeedback = loadFixtureFeedback()
 
-    // If no data in DB, load from local mock data files (simulated)
-    // In production, this would come from actual APIs or webhooks
-    const mockFeedback: FeedbackItem[] = [
-      // GitHub Issues - Technical bugs and features
-      {
-        id: "github_001",
-        source_type: "github",
-        source_id: "issues/456",
-        title: "Docker container fails to start on ARM64 architecture",
-        content: "When trying to run PlexNet in a Docker container on ARM64 systems, the container fails to start with exec format error. This is blocking deployment on modern Apple Silicon Macs and ARM-based servers.",
-        author: "dev-arm64-user",
-        created_at: "2024-11-25T13:20:00Z",
-        metadata: { labels: ["bug", "docker", "arm64", "critical"], comments_count: 8 }
-      },
-      {
-        id: "github_002",
-        source_type: "github",
-        source_id: "issues/457",
-        title: "Feature request: Prometheus metrics export",
-        content: "Add native Prometheus metrics export capability for integration with existing monitoring stacks. Need /metrics endpoint with proper exposition format and configurable collection intervals.",
-        author: "k8s-monitoring",
-        created_at: "2024-11-26T16:45:00Z",
-        metadata: { labels: ["enhancement", "prometheus", "kubernetes"], comments_count: 12 }
-      },
-      {
-        id: "github_003",
-        source_type: "github",
-        source_id: "issues/458",
-        title: "High CPU usage when monitoring large networks (>1000 devices)",
-        content: "Server process consumes excessive CPU resources when monitoring networks with more than 1000 devices. Performance degrades significantly with SNMP polling becoming slow and unreliable.",
-        author: "enterprise-user",
-        created_at: "2024-11-27T11:10:00Z",
-        metadata: { labels: ["performance", "scalability", "snmp"], comments_count: 6 }
-      },
-      {
-        id: "github_004",
-        source_type: "github",
-        source_id: "pull/234",
-        title: "Add IPv6 support for network discovery",
-        content: "Implement comprehensive IPv6 support including ICMPv6 neighbor discovery, IPv6 subnet scanning, and dual-stack device detection. Closes IPv6 compatibility issues.",
-        author: "ipv6-contributor",
-        created_at: "2024-11-28T15:30:00Z",
-        metadata: { labels: ["enhancement", "ipv6", "network-discovery"] }
-      },
-      {
-        id: "github_005",
-        source_type: "github",
-        source_id: "issues/459",
-        title: "Security vulnerability: SQL injection in device search API",
-        content: "Critical SQL injection vulnerability in /api/devices/search endpoint. Query parameters are not properly sanitized before SQL execution. Affects all versions prior to 2.3.2.",
-        author: "security-researcher",
-        created_at: "2024-11-29T08:00:00Z",
-        metadata: { labels: ["security", "vulnerability", "sql-injection", "critical"] }
-      },
-
-      // Slack Messages - Customer and internal communication
-      {
-        id: "slack_001",
-        source_type: "slack",
-        source_id: "C1234567890_1643723400.001",
-        title: "Customer reporting dashboard login issues",
-        content: "@support-team We just got a call from a customer at MegaCorp reporting 'Invalid token' errors when logging into the dashboard after the latest update. They're using SSO with Azure AD.",
-        author: "customer-success",
-        created_at: "2024-12-01T09:30:00Z",
-        metadata: { channel: "support", replies: 2 }
-      },
-      {
-        id: "slack_002",
-        source_type: "slack",
-        source_id: "C2345678901_1643724000.001",
-        title: "New feature idea: Network topology visualization",
-        content: "@product-team What if we added an interactive network topology map showing devices, connections, and traffic flows in real-time? Could help with troubleshooting connectivity issues.",
-        author: "network-engineer",
-        created_at: "2024-12-01T10:45:00Z",
-        metadata: { channel: "product-feedback", replies: 3 }
-      },
-      {
-        id: "slack_003",
-        source_type: "slack",
-        source_id: "C3456789012_1643725000.001",
-        title: "Performance issue with large network scans",
-        content: "@engineering-team Network scans are taking 15+ minutes for networks with 500+ devices. Customers are complaining about slow discovery times. Need optimization for large-scale deployments.",
-        author: "field-engineer",
-        created_at: "2024-12-01T11:30:00Z",
-        metadata: { channel: "engineering", replies: 5 }
-      },
-
-      // Jira Issues - Structured project management
-      {
-        id: "jira_001",
-        source_type: "jira",
-        source_id: "NET-123",
-        title: "Network monitoring performance degradation",
-        content: "Users reporting slow response times when accessing network monitoring dashboard during peak hours. Memory usage spikes to 2-3GB during high load periods.",
-        author: "network-team",
-        created_at: "2024-11-28T10:15:00Z",
-        metadata: { priority: "high", status: "open", assignee: "backend-team" }
-      },
-      {
-        id: "jira_002",
-        source_type: "jira",
-        source_id: "SEC-456",
-        title: "Implement OAuth 2.0 authentication",
-        content: "Replace basic authentication with OAuth 2.0 for improved security and integration capabilities with enterprise identity providers like Okta and Azure AD.",
-        author: "security-team",
-        created_at: "2024-11-30T14:20:00Z",
-        metadata: { priority: "medium", status: "in-progress", assignee: "auth-team" }
-      },
-
-      // Email Support Tickets - Customer support
-      {
-        id: "email_001",
-        source_type: "email",
-        source_id: "ticket_789",
-        title: "Cannot access historical data after upgrade",
-        content: "After upgrading to v2.3.0, users cannot access historical monitoring data from before the upgrade. Database migration issue suspected. Critical for compliance reporting.",
-        author: "support@enterprise-customer.com",
-        created_at: "2024-12-02T08:45:00Z",
-        metadata: { priority: "high", category: "data-loss" }
-      },
-
-      // Bug Reports - QA and testing feedback
-      {
-        id: "bug_001",
-        source_type: "bug-report",
-        source_id: "BR-101",
-        title: "Memory leak in SNMP polling process",
-        content: "Memory usage continuously increases during SNMP polling operations. Process must be restarted every 24 hours to prevent system crashes. Affects reliability in production.",
-        author: "qa-team",
-        created_at: "2024-12-03T13:15:00Z",
-        metadata: { severity: "critical", component: "snmp-poller" }
-      },
-
-      // Teams Messages - Microsoft Teams integration
-      {
-        id: "teams_001",
-        source_type: "teams",
-        source_id: "thread_abc123",
-        title: "Integration with ServiceNow requested",
-        content: "Customer is asking for bidirectional integration with ServiceNow for automated incident creation and resolution tracking. This would streamline IT operations workflows.",
-        author: "sales-engineer",
-        created_at: "2024-12-04T09:00:00Z",
-        metadata: { channel: "integrations", urgent: false }
-      },
-
-      // Dashboard Forms - User feedback forms
-      {
-        id: "form_001",
-        source_type: "dashboard-form",
-        source_id: "feedback_001",
-        title: "Dashboard usability feedback",
-        content: "The new dashboard layout is confusing. Users can't find the device list easily. Navigation needs improvement. The search functionality is also slow with large device counts.",
-        author: "power-user",
-        created_at: "2024-12-05T16:30:00Z",
-        metadata: { rating: 2, category: "usability" }
-      },
-
-      // Additional diverse feedback for better analysis
-      {
-        id: "github_006",
-        source_type: "github",
-        source_id: "issues/460",
-        title: "Add support for NetFlow v9 export",
-        content: "Implement NetFlow v9 export capability for integration with network traffic analysis tools like SolarWinds and PRTG. This is a common enterprise requirement.",
-        author: "netflow-user",
-        created_at: "2024-12-06T10:00:00Z",
-        metadata: { labels: ["enhancement", "netflow", "export"] }
-      },
-      {
-        id: "slack_004",
-        source_type: "slack",
-        source_id: "C4567890123_1643726000.001",
-        title: "Mobile app feature request",
-        content: "@product-team Can we get a mobile app for on-the-go network monitoring? Critical alerts and basic device status would be very useful for network admins.",
-        author: "mobile-user",
-        created_at: "2024-12-06T14:15:00Z",
-        metadata: { channel: "product-feedback", replies: 7 }
-      }
-    ]
-
-    // Try to process feedback directly, but don't fail if DB isn't ready
-    if (mockFeedback.length > 0) {
+      // Try to process feedback directly, but don't fail if DB isn't ready
       try {
-        await this.processFeedbackDirectly(mockFeedback, env)
+        await this.processFeedbackDirectly(fixtureFeedback, env)
       } catch (dbError: unknown) {
-        console.log('Database not ready for writing, using mock data only:', dbError instanceof Error ? dbError.message : String(dbError))
+        console.log('Database not ready for writing, using fixture data only:', dbError instanceof Error ? dbError.message : String(dbError))
       }
-    }
 
-    return mockFeedback
+      return fixtureFeedback
     } catch (error: unknown) {
-      console.error('Error loading mock data:', error instanceof Error ? error instanceof Error ? error.message : String(error) : String(error))
+      console.error('Error loading fixture data:', error instanceof Error ? error.message : String(error))
       return []
     }
   }
 
+  // Load every data/*.json export into D1, replacing rows with the same id
+  async seedFromFixtures(env: any, names?: string[], audit: AuditContext = SYSTEM_AUDIT): Promise<string[]> {
+    return this.processFeedbackDirectly(loadFixtureFeedback(names), env, audit)
+  }
+
   private async getFeedbackFromDB(env: any): Promise<FeedbackItem[]> {
     try {
       const result = await env.FEEDBACK_DB.prepare(`
-        SELECT id, source_type, source_id, title, content, author, created_at, metadata
+        SELECT ${FEEDBACK_COLUMNS}
         FROM feedback
-        ORDER BY created_at DESC
-      `).all()
+        ORDER BY created_at_timestamp DESC
+        LIMIT ?
+      `).bind(conservativeDB.maxResults).all()
 
-      return result.results.map((row: any) => ({
-        id: row.id,
-        source_type: row.source_type,
-        source_id: row.source_id,
-        title: row.title,
-        content: row.content,
-        author: row.author,
-        created_at: row.created_at,
-        metadata: JSON.parse(row.metadata || '{}')
-      }))
+      return result.results.map((row: any) => this.mapRow(row))
     } catch (error: unknown) {
       console.log('Database table not ready, using mock data:', error instanceof Error ? error instanceof Error ? error.message : String(error) : String(error))
       // Return mock data if table doesn't exist yet
@@ -328,47 +568,131 @@ export class FeedbackAggregator {
     }
   }
 
-  private async analyzeFeedbackSummary(feedback: FeedbackItem[], env: any): Promise<FeedbackSummary> {
-    const sources = [...new Set(feedback.map(f => f.source_type))]
-    const dates = feedback.map(f => new Date(f.created_at)).sort((a, b) => a.getTime() - b.getTime())
-    const dateRange = dates.length > 0 ?
-      `${dates[0].toISOString().split('T')[0]} to ${dates[dates.length-1].toISOString().split('T')[0]}` :
-      'No data'
+  // Rows selected with FEEDBACK_COLUMNS; the messages column is folded back into
+  // metadata.comments / metadata.replies
+  mapRow(row: any): FeedbackItem {
+    const metadata = JSON.parse(row.metadata || '{}')
+
+    const messages: any[] = row.messages ? JSON.parse(row.messages) : []
+    for (const [key, kind] of Object.entries(THREAD_KINDS)) {
+      const thread = messages.filter(message => message.kind === kind)
+      if (thread.length > 0) metadata[key] = normalizeThread(thread)
+    }
+
+    return {
+      id: row.id,
+      source_type: row.source_type,
+      source_id: row.source_id,
+      title: row.title,
+      content: row.content,
+      author: row.author,
+      created_at: row.created_at,
+      metadata,
+      ...(row.cluster_id !== undefined ? { cluster_id: row.cluster_id } : {})
+    }
+  }
+
+  // Separate the threads stored in feedback_messages from the rest of the metadata
+  private splitThreads(itemMetadata: any): { metadata: any, kinds: string[], messages: any[] } {
+    const metadata = { ...(itemMetadata || {}) }
+    const kinds: string[] = []
+    const messages: any[] = []
+
+    for (const [key, kind] of Object.entries(THREAD_KINDS)) {
+      if (metadata[key] === undefined) continue
+      kinds.push(kind)
+      normalizeThread(metadata[key]).forEach((entry, position) => {
+        messages.push({ kind, position, id: entry.id ?? null, author: entry.author, content: entry.content, created_at: entry.created_at })
+      })
+      delete metadata[key]
+    }
 
-    // Categorize feedback
-    const categories = this.categorizeFeedback(feedback)
+    return { metadata, kinds, messages }
+  }
 
-    // Sentiment analysis using Workers AI
-    const averageSentiment = await this.analyzeSentiment(feedback, env)
+  // Most recent items, newest first, as samples for the AI prompts. Only the redacted copy
+  // stored at ingest is returned (redacted here for rows not re-enriched since redaction existed).
+  private async getRecentFeedback(env: any, limit: number): Promise<FeedbackItem[]> {
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT ${FEEDBACK_COLUMNS},
+        (SELECT json_object('title', redacted_title, 'content', redacted_content)
+         FROM feedback_enrichment WHERE feedback_id = feedback.id AND redacted_title IS NOT NULL) AS redacted
+      FROM feedback
+      ORDER BY created_at_timestamp DESC
+      LIMIT ?
+    `).bind(limit).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    return rows.map(row => promptCopy(this.mapRow(row), row.redacted ? JSON.parse(row.redacted) : undefined))
+  }
 
-    // Count critical issues and feature requests
-    const criticalIssues = feedback.filter(f =>
-      f.metadata.labels?.includes('security') ||
-      f.metadata.labels?.includes('critical') ||
-      f.content.toLowerCase().includes('vulnerability') ||
-      f.content.toLowerCase().includes('crash')
-    ).length
+  // The analytics below read feedback_enrichment, so an empty database is seeded from the
+  // fixtures first (as aggregateAllFeedback does)
+  private async ensureFeedback(env: any): Promise<void> {
+    const row = await env.FEEDBACK_DB.prepare('SELECT 1 AS present FROM feedback LIMIT 1').first()
+    if (!row) await this.seedFromFixtures(env)
+  }
 
-    const featureRequests = feedback.filter(f =>
-      f.source_type === 'github' && f.metadata.state === 'open' && f.metadata.labels?.includes('enhancement') ||
-      f.content.toLowerCase().includes('feature request') ||
-      f.content.toLowerCase().includes('would be great')
-    ).length
+  private async analyzeFeedbackSummary(env: any): Promise<FeedbackSummary> {
+    // Counts per item and per unique issue (items in the same cluster are one issue)
+    const [totals, sourceRows, categoryRows, sentiment] = await Promise.all([
+      env.FEEDBACK_DB.prepare(`
+        SELECT
+          COUNT(*) AS total,
+          COUNT(DISTINCT COALESCE(f.cluster_id, f.id)) AS unique_issues,
+          MIN(f.created_at_timestamp) AS first_seen,
+          MAX(f.created_at_timestamp) AS last_seen,
+          COALESCE(SUM(e.critical), 0) AS critical,
+          COUNT(DISTINCT CASE WHEN e.critical = 1 THEN COALESCE(f.cluster_id, f.id) END) AS unique_critical,
+          COALESCE(SUM(e.feature_request), 0) AS feature_requests,
+          COUNT(DISTINCT CASE WHEN e.feature_request = 1 THEN COALESCE(f.cluster_id, f.id) END) AS unique_feature_requests
+        FROM feedback f
+        LEFT JOIN feedback_enrichment e ON e.feedback_id = f.id
+      `).first(),
+      env.FEEDBACK_DB.prepare(`
+        SELECT source_type FROM feedback
+        GROUP BY source_type
+        ORDER BY MAX(created_at_timestamp) DESC
+      `).all(),
+      env.FEEDBACK_DB.prepare(`
+        SELECT c.value AS name, COUNT(*) AS count
+        FROM feedback_enrichment e, json_each(e.categories) c
+        GROUP BY c.value
+        ORDER BY count DESC, name
+        LIMIT 5
+      `).all(),
+      this.overallSentiment(env)
+    ])
+    this.freeTierManager.recordD1RowsRead(totals?.total || 0)
+
+    const day = (timestamp: number) => new Date(timestamp * 1000).toISOString().split('T')[0]
+    const dateRange = totals?.first_seen != null ?
+      `${day(totals.first_seen)} to ${day(totals.last_seen)}` :
+      'No data'
 
     return {
-      totalItems: feedback.length,
-      sources,
+      totalItems: totals?.total || 0,
+      uniqueIssues: totals?.unique_issues || 0,
+      sources: (sourceRows.results || []).map((row: any) => row.source_type),
       dateRange,
-      topCategories: categories.slice(0, 5).map(([cat, count]) => `${cat} (${count})`),
-      averageSentiment,
-      criticalIssues,
-      featureRequests
+      topCategories: (categoryRows.results || []).map((row: any) => `${row.name} (${row.count})`),
+      averageSentiment: sentiment.label.charAt(0).toUpperCase() + sentiment.label.slice(1),
+      sentimentScore: sentiment.score,
+      modelScoredItems: sentiment.modelScored,
+      criticalIssues: totals?.critical || 0,
+      uniqueCriticalIssues: totals?.unique_critical || 0,
+      featureRequests: totals?.feature_requests || 0,
+      uniqueFeatureRequests: totals?.unique_feature_requests || 0
     }
   }
 
-  private async generateInsights(feedback: FeedbackItem[], env: any): Promise<FeedbackInsights> {
+  private async generateInsights(env: any): Promise<FeedbackInsights> {
     // Extract critical issues with enhanced filtering
-    const criticalIssues = this.extractCriticalIssues(feedback)
+    const criticalIssues = await this.extractCriticalIssues(env)
+
+    // Newest items feed the AI prompts
+    const recentFeedback = await this.getRecentFeedback(env, 15)
 
     // Advanced AI-powered analysis (with fallbacks)
     let sentimentAnalysis = { overall: 'neutral', key_concerns: [], positive_signals: [], urgency_level: 'medium' }
@@ -376,36 +700,48 @@ export class FeedbackAggregator {
     let userJourneyInsights = { journeyStages: [], painPoints: [], featureAdoption: [] }
 
     try {
-      sentimentAnalysis = await this.analyzeSentimentTrends(feedback, env)
+      sentimentAnalysis = await this.analyzeSentimentTrends(recentFeedback, env)
     } catch (error: unknown) {
       console.log('Sentiment analysis failed, using defaults:', error instanceof Error ? error.message : String(error))
     }
+    // The overall label comes from the per-item scores; the model only adds concerns and urgency
+    try {
+      sentimentAnalysis = { ...sentimentAnalysis, overall: (await this.overallSentiment(env)).label }
+    } catch (error: unknown) {
+      console.log('Overall sentiment failed:', error instanceof Error ? error.message : String(error))
+    }
 
     try {
-      priorityMatrix = await this.generatePriorityMatrix(feedback, env)
+      priorityMatrix = await this.generatePriorityMatrix(env)
     } catch (error: unknown) {
       console.log('Priority matrix failed, using defaults:', error instanceof Error ? error.message : String(error))
     }
 
     try {
-      userJourneyInsights = await this.analyzeUserJourneys(feedback, env)
+      userJourneyInsights = await this.analyzeUserJourneys(env)
     } catch (error: unknown) {
       console.log('User journey analysis failed, using defaults:', error instanceof Error ? error.message : String(error))
     }
 
+    let anomalies: Anomaly[] = []
+    try {
+      anomalies = await this.anomalyDetector.detect(env)
+    } catch (error: unknown) {
+      console.log('Anomaly detection failed, using defaults:', error instanceof Error ? error.message : String(error))
+    }
+
     // Find trending topics using enhanced AI (with fallback)
     let trendingTopics: string[] = []
     try {
-      trendingTopics = await this.extractAdvancedTrendingTopics(feedback, env)
+      trendingTopics = await this.extractAdvancedTrendingTopics(recentFeedback, anomalies, env)
     } catch (error: unknown) {
-      console.log('Trending topics failed, using defaults:', error instanceof Error ? error.message : String(error))
-      trendingTopics = ['Performance & Scalability Issues', 'Security Vulnerabilities', 'Multi-Platform Compatibility']
+      console.log('Trending topics failed:', error instanceof Error ? error.message : String(error))
     }
 
     // Generate sophisticated recommendations (with fallback)
     let recommendations: string[] = []
     try {
-      recommendations = await this.generateAdvancedRecommendations(feedback, sentimentAnalysis, env)
+      recommendations = await this.generateAdvancedRecommendations(recentFeedback, sentimentAnalysis, env)
     } catch (error: unknown) {
       console.log('Recommendations failed, using defaults:', error instanceof Error ? error.message : String(error))
       recommendations = [
@@ -418,7 +754,7 @@ export class FeedbackAggregator {
     // Dynamic priority actions based on analysis (with fallback)
     let priorityActions: string[] = []
     try {
-      priorityActions = await this.generateDynamicPriorityActions(feedback, priorityMatrix, env)
+      priorityActions = await this.generateDynamicPriorityActions(priorityMatrix, userJourneyInsights)
     } catch (error: unknown) {
       console.log('Priority actions failed, using defaults:', error instanceof Error ? error.message : String(error))
       priorityActions = [
@@ -430,6 +766,7 @@ export class FeedbackAggregator {
 
     return {
       criticalIssues,
+      anomalies,
       trendingTopics,
       recommendations,
       priorityActions,
@@ -439,126 +776,64 @@ export class FeedbackAggregator {
     } as any
   }
 
-  private categorizeFeedback(feedback: FeedbackItem[]): [string, number][] {
-    const categories: Record<string, number> = {}
+  // Every enriched item's sentiment, weighted by confidence (see feedback-sentiment.ts)
+  private async overallSentiment(env: any): Promise<{ label: Sentiment, score: number, modelScored: number }> {
+    const row = await env.FEEDBACK_DB.prepare(`
+      SELECT ${WEIGHTED_SENTIMENT} AS score, COALESCE(SUM(e.sentiment_method <> ?), 0) AS model_scored
+      FROM feedback_enrichment e
+    `).bind(LEXICON_METHOD).first()
+    const score = row?.score ?? null
 
-    feedback.forEach(f => {
-      // Categorize by labels first
-      if (f.metadata.labels) {
-        f.metadata.labels.forEach((label: string) => {
-          categories[label] = (categories[label] || 0) + 1
-        })
-      }
-
-      // Categorize by content keywords
-      const content = f.content.toLowerCase()
-      if (content.includes('docker') || content.includes('container')) categories['docker'] = (categories['docker'] || 0) + 1
-      if (content.includes('performance') || content.includes('cpu') || content.includes('memory')) categories['performance'] = (categories['performance'] || 0) + 1
-      if (content.includes('security') || content.includes('vulnerability')) categories['security'] = (categories['security'] || 0) + 1
-      if (content.includes('feature') || content.includes('enhancement')) categories['features'] = (categories['features'] || 0) + 1
-      if (content.includes('network') || content.includes('connectivity')) categories['network'] = (categories['network'] || 0) + 1
-    })
-
-    return Object.entries(categories).sort(([,a], [,b]) => b - a)
+    return {
+      label: sentimentLabel(score),
+      score: score === null ? 0 : Math.round(score * 100) / 100,
+      modelScored: row?.model_scored || 0
+    }
   }
 
-  private async analyzeSentiment(feedback: FeedbackItem[], env: any): Promise<string> {
-    // Check free tier limits before making AI request
-    const sample = feedback.slice(0, 5) // Reduced sample size
-    const titles = sample.map(f => f.title).join('. ')
-    const truncatedTitles = conservativeAI.truncateForAI(titles, 1000)
-    const estimatedTokens = conservativeAI.estimateTokens(truncatedTitles)
-
-    if (!this.freeTierManager.canMakeAIRequest(env, estimatedTokens)) {
-      console.log('AI request blocked due to free tier limits')
-      return 'Neutral' // Fallback when limits exceeded
-    }
+  // Open items only: resolved and won't-fix items drop out
+  private async extractCriticalIssues(env: any): Promise<CriticalIssue[]> {
+    // Sort by severity and recency
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT f.id, f.title, e.redacted_title, f.source_type, e.severity, e.severity_breakdown
+      FROM feedback_enrichment e
+      JOIN feedback f ON f.id = e.feedback_id
+      WHERE e.critical_mention = 1
+        AND f.id NOT IN (SELECT feedback_id FROM feedback_triage WHERE status IN (SELECT value FROM json_each(?)))
+      ORDER BY e.severity DESC, f.created_at_timestamp DESC
+      LIMIT 8
+    `).bind(JSON.stringify(CLOSED_STATUSES)).all()
+
+    // Titles end up in prompts (Slack answers), so use the redacted ones
+    return (result.results || []).map((row: any) => ({
+      id: row.id,
+      title: row.redacted_title ?? redactText(row.title).text,
+      source_type: row.source_type,
+      severity: row.severity,
+      severity_breakdown: JSON.parse(row.severity_breakdown)
+    }))
+  }
 
+  // Measured spikes lead; the model names the themes in the newest items around them. Without
+  // the model, the largest embedding themes (feedback-themes.ts) fill in.
+  private async extractAdvancedTrendingTopics(feedback: FeedbackItem[], anomalies: Anomaly[], env: any): Promise<string[]> {
+    const spikes = anomalies.filter(anomaly => anomaly.direction === 'spike').map(anomaly => anomaly.summary)
+    let themes: string[] = []
     try {
-      const model = conservativeAI.getModelForTask('sentiment')
-
-      const aiResponse = await env.AI.run(model, {
-        messages: [
-          {
-            role: 'system',
-            content: 'Analyze the sentiment of these feedback titles. Return only: positive, negative, or neutral.'
-          },
-          {
-            role: 'user',
-            content: `Analyze sentiment: ${truncatedTitles}`
-          }
-        ],
-        max_tokens: 10
-      })
-
-      // Record token usage
-      this.freeTierManager.recordAITokensUsed(estimatedTokens)
-
-      return aiResponse.response?.toLowerCase().includes('positive') ? 'Positive' :
-             aiResponse.response?.toLowerCase().includes('negative') ? 'Negative' : 'Neutral'
+      themes = (await this.feedbackThemes.getThemes(env)).map(theme => `${theme.label} (${theme.size} items)`)
     } catch (error: unknown) {
-      console.error('Sentiment analysis error:', error)
-      return 'Neutral'
+      console.log('Themes unavailable:', error instanceof Error ? error.message : String(error))
     }
-  }
+    const fallback = [...spikes, ...themes].slice(0, 5)
 
-  private extractCriticalIssues(feedback: FeedbackItem[]): string[] {
-    const criticalKeywords = [
-      'security', 'vulnerability', 'sql-injection', 'crash', 'data loss',
-      'memory leak', 'performance degradation', 'blocking', 'critical',
-      'emergency', 'breach', 'exploit'
-    ]
-
-    return feedback
-      .filter(f => {
-        const content = f.content.toLowerCase()
-        const title = f.title.toLowerCase()
-        const labels = f.metadata.labels || []
-
-        return criticalKeywords.some(keyword =>
-          content.includes(keyword) ||
-          title.includes(keyword) ||
-          labels.some((label: string) => label.toLowerCase().includes(keyword))
-        )
-      })
-      .sort((a, b) => {
-        // Sort by severity and recency
-        const aSeverity = this.calculateSeverity(a)
-        const bSeverity = this.calculateSeverity(b)
-        if (aSeverity !== bSeverity) return bSeverity - aSeverity
-
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      })
-      .slice(0, 8)
-      .map(f => `${f.title} (${f.source_type})`)
-  }
-
-  private calculateSeverity(feedback: FeedbackItem): number {
-    let severity = 1
-    const content = (feedback.content + feedback.title).toLowerCase()
-    const labels = feedback.metadata.labels || []
-
-    // Critical indicators
-    if (labels.includes('critical') || content.includes('security') || content.includes('vulnerability')) severity += 3
-    if (content.includes('crash') || content.includes('data loss')) severity += 2
-    if (labels.includes('blocking') || content.includes('blocking')) severity += 2
-    if (feedback.metadata.priority === 'high' || labels.includes('high')) severity += 1
-
-    // Source-based weighting
-    if (feedback.source_type === 'bug-report') severity += 1
-    if (feedback.source_type === 'security-researcher') severity += 2
-
-    return Math.min(severity, 5) // Max severity of 5
-  }
-
-  private async extractAdvancedTrendingTopics(feedback: FeedbackItem[], env: any): Promise<string[]> {
-    const recentFeedback = feedback.slice(-15) // More recent feedback
+    const recentFeedback = feedback.slice(0, 15) // Newest first
     const content = recentFeedback.map(f => `${f.source_type}: ${f.title} - ${f.content.substring(0, 100)}`).join(' | ')
     const truncatedContent = conservativeAI.truncateForAI(content, 1200)
-    const estimatedTokens = conservativeAI.estimateTokens(truncatedContent)
+    const spikeContext = spikes.length > 0 ? `Spikes measured this week: ${spikes.join('; ')}. ` : ''
+    const estimatedTokens = conservativeAI.estimateTokens(spikeContext + truncatedContent)
 
     if (!this.freeTierManager.canMakeAIRequest(env, estimatedTokens)) {
-      return ['Performance & Scalability Issues', 'Security Vulnerabilities', 'Multi-Platform Compatibility', 'Integration Capabilities', 'User Experience Improvements']
+      return fallback
     }
 
     try {
@@ -572,7 +847,7 @@ export class FeedbackAggregator {
           },
           {
             role: 'user',
-            content: `Extract trending topics from this feedback data: ${truncatedContent}`
+            content: `${spikeContext}Extract trending topics from this feedback data: ${truncatedContent}`
           }
         ],
         max_tokens: 100
@@ -582,9 +857,9 @@ export class FeedbackAggregator {
 
       const response = aiResponse.response || ''
       const topics = response.split('\n').filter((line: string) => line.trim().startsWith('•') || line.trim().startsWith('-')).slice(0, 5)
-      return topics.length > 0 ? topics : ['Performance & Scalability Issues', 'Security Vulnerabilities', 'Multi-Platform Compatibility', 'Integration Capabilities', 'User Experience Improvements']
+      return topics.length > 0 ? [...spikes, ...topics].slice(0, 5) : fallback
     } catch (error: unknown) {
-      return ['Performance & Scalability Issues', 'Security Vulnerabilities', 'Multi-Platform Compatibility', 'Integration Capabilities', 'User Experience Improvements']
+      return fallback
     }
   }
 
@@ -594,7 +869,7 @@ export class FeedbackAggregator {
     }
 
     try {
-      const recentFeedback = feedback.slice(-12)
+      const recentFeedback = feedback.slice(0, 12)
       const contentSample = recentFeedback.map(f => `${f.source_type}: ${f.title}`).join('; ')
 
       const aiResponse = await env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
@@ -620,8 +895,8 @@ export class FeedbackAggregator {
     }
   }
 
-  private async generatePriorityMatrix(feedback: FeedbackItem[], env: any): Promise<any> {
-    const categories = this.categorizeFeedbackAdvanced(feedback)
+  private async generatePriorityMatrix(env: any): Promise<any> {
+    const categories = await this.categorizeFeedbackAdvanced(env)
 
     return {
       urgent: categories.filter(c => c.priority === 'urgent'),
@@ -631,158 +906,92 @@ export class FeedbackAggregator {
     }
   }
 
-  private categorizeFeedbackAdvanced(feedback: FeedbackItem[]): any[] {
-    const categories: Record<string, any> = {}
-
-    feedback.forEach(f => {
-      const content = f.content.toLowerCase()
-      const labels = f.metadata.labels || []
-
-      // Security category
-      if (content.includes('security') || content.includes('vulnerability') || labels.includes('security')) {
-        this.addToCategory(categories, 'security', f, 'urgent')
-      }
-
-      // Performance category
-      if (content.includes('performance') || content.includes('slow') || content.includes('cpu') || labels.includes('performance')) {
-        this.addToCategory(categories, 'performance', f, 'high')
-      }
-
-      // Compatibility category
-      if (content.includes('docker') || content.includes('arm64') || content.includes('ipv6') || labels.includes('compatibility')) {
-        this.addToCategory(categories, 'compatibility', f, 'medium')
-      }
-
-      // Features category
-      if (content.includes('feature') || content.includes('enhancement') || labels.includes('enhancement')) {
-        this.addToCategory(categories, 'features', f, 'medium')
-      }
-
-      // Usability category
-      if (content.includes('usability') || content.includes('ui') || content.includes('dashboard') || labels.includes('usability')) {
-        this.addToCategory(categories, 'usability', f, 'low')
-      }
-    })
-
-    return Object.values(categories)
+  // Open items only, like the critical issues. Priorities come from the current taxonomy.
+  private async categorizeFeedbackAdvanced(env: any): Promise<any[]> {
+    const taxonomy = await this.taxonomyStore.load(env)
+    const priorities = new Map(taxonomy.rules
+      .filter(rule => rule.kind === 'category' && rule.priority)
+      .map(rule => [rule.name, rule.priority]))
+
+    // `count` is every report; `issueCount` collapses duplicates of the same issue
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT
+        c.value AS name,
+        COUNT(*) AS count,
+        COUNT(DISTINCT COALESCE(f.cluster_id, f.id)) AS issueCount,
+        json_group_array(json_array(e.redacted_title, f.title)) AS items,
+        MAX(f.created_at) AS latestUpdate
+      FROM feedback_enrichment e
+      JOIN feedback f ON f.id = e.feedback_id, json_each(e.priority_categories) c
+      WHERE f.id NOT IN (SELECT feedback_id FROM feedback_triage WHERE status IN (SELECT value FROM json_each(?)))
+      GROUP BY c.value
+      ORDER BY count DESC
+    `).bind(JSON.stringify(CLOSED_STATUSES)).all()
+
+    // Items not yet re-categorized after a rule change may still carry a category that's gone.
+    // Titles are served by /api/feedback/insights and Slack, so use the redacted ones.
+    return (result.results || []).filter((row: any) => priorities.has(row.name)).map((row: any) => ({
+      name: row.name,
+      priority: priorities.get(row.name),
+      count: row.count,
+      issueCount: row.issueCount,
+      items: JSON.parse(row.items).map(([redacted, title]: [string | null, string]) => redacted ?? redactText(title).text),
+      latestUpdate: row.latestUpdate
+    }))
   }
 
-  private addToCategory(categories: Record<string, any>, category: string, feedback: FeedbackItem, priority: string) {
-    if (!categories[category]) {
-      categories[category] = {
-        name: category,
-        priority,
-        count: 0,
-        items: [],
-        latestUpdate: feedback.created_at
-      }
-    }
-
-    categories[category].count++
-    categories[category].items.push(feedback.title)
-    if (new Date(feedback.created_at) > new Date(categories[category].latestUpdate)) {
-      categories[category].latestUpdate = feedback.created_at
-    }
-  }
+  private async analyzeUserJourneys(env: any): Promise<any> {
+    const [taxonomy, stageRows, painPointRows, featureRows] = await Promise.all([
+      this.taxonomyStore.load(env),
+      env.FEEDBACK_DB.prepare(`
+        SELECT s.value AS stage, COUNT(*) AS count, ${WEIGHTED_SENTIMENT} AS score
+        FROM feedback_enrichment e, json_each(e.journey_stages) s
+        GROUP BY s.value
+      `).all(),
+      env.FEEDBACK_DB.prepare(`
+        SELECT p.value AS point, COUNT(*) AS count
+        FROM feedback_enrichment e, json_each(e.pain_points) p
+        GROUP BY p.value
+        ORDER BY count DESC, point
+        LIMIT 6
+      `).all(),
+      env.FEEDBACK_DB.prepare(`
+        SELECT t.value AS feature, COUNT(*) AS mentions, ${WEIGHTED_SENTIMENT} AS score
+        FROM feedback_enrichment e, json_each(e.features) t
+        GROUP BY t.value
+        ORDER BY mentions DESC, feature
+      `).all()
+    ])
 
-  private async analyzeUserJourneys(feedback: FeedbackItem[], env: any): Promise<any> {
-    const journeyMap = {
-      'First Time Setup': feedback.filter(f => f.content.toLowerCase().includes('setup') || f.content.toLowerCase().includes('install') || f.content.toLowerCase().includes('deploy')),
-      'Daily Usage': feedback.filter(f => f.content.toLowerCase().includes('dashboard') || f.content.toLowerCase().includes('monitoring') || f.content.toLowerCase().includes('daily')),
-      'Troubleshooting': feedback.filter(f => f.content.toLowerCase().includes('error') || f.content.toLowerCase().includes('issue') || f.content.toLowerCase().includes('problem')),
-      'Advanced Features': feedback.filter(f => f.content.toLowerCase().includes('prometheus') || f.content.toLowerCase().includes('integration') || f.content.toLowerCase().includes('api'))
-    }
+    const stages = new Map<string, any>((stageRows.results || []).map((row: any) => [row.stage, row]))
+    const rounded = (score: number | null) => score === null ? null : Math.round(score * 100) / 100
 
     return {
-      journeyStages: Object.entries(journeyMap).map(([stage, items]) => ({
+      journeyStages: taxonomy.rules.filter(rule => rule.kind === 'journey_stage').map(({ name: stage }) => ({
         stage,
-        feedbackCount: items.length,
-        satisfaction: this.calculateJourneySatisfaction(items)
+        feedbackCount: stages.get(stage)?.count || 0,
+        satisfaction: this.calculateJourneySatisfaction(stages.get(stage)?.score ?? null),
+        sentimentScore: rounded(stages.get(stage)?.score ?? null)
       })),
-      painPoints: this.identifyPainPoints(feedback),
-      featureAdoption: this.analyzeFeatureAdoption(feedback)
+      painPoints: (painPointRows.results || []).map((row: any) => `${row.point} (${row.count} mentions)`),
+      featureAdoption: (featureRows.results || []).map((row: any) => ({
+        feature: row.feature,
+        mentions: row.mentions,
+        sentiment: sentimentLabel(row.score),
+        sentimentScore: rounded(row.score)
+      }))
     }
   }
 
-  private calculateJourneySatisfaction(feedback: FeedbackItem[]): string {
-    const positiveWords = ['great', 'excellent', 'love', 'amazing', 'perfect', 'smooth', 'easy']
-    const negativeWords = ['frustrating', 'slow', 'confusing', 'broken', 'terrible', 'difficult', 'complex']
-
-    const positive = feedback.filter(f =>
-      positiveWords.some(word => f.content.toLowerCase().includes(word))
-    ).length
-
-    const negative = feedback.filter(f =>
-      negativeWords.some(word => f.content.toLowerCase().includes(word))
-    ).length
-
-    if (positive > negative * 2) return 'high'
-    if (negative > positive * 2) return 'low'
-    return 'medium'
-  }
-
-  private identifyPainPoints(feedback: FeedbackItem[]): string[] {
-    const painPointPatterns = [
-      'slow', 'crashing', 'confusing', 'broken', 'missing', 'inconsistent',
-      'unreliable', 'complex', 'difficult', 'frustrating', 'blocking', 'error'
-    ]
-
-    const painPoints: Record<string, number> = {}
-
-    feedback.forEach(f => {
-      const content = f.content.toLowerCase()
-      painPointPatterns.forEach(pattern => {
-        if (content.includes(pattern)) {
-          painPoints[pattern] = (painPoints[pattern] || 0) + 1
-        }
-      })
-    })
-
-    return Object.entries(painPoints)
-      .sort(([,a], [,b]) => b - a)
-      .slice(0, 6)
-      .map(([point, count]) => `${point} (${count} mentions)`)
-  }
-
-  private analyzeFeatureAdoption(feedback: FeedbackItem[]): any {
-    const features = ['prometheus', 'snmp', 'dashboard', 'api', 'alerting', 'reporting', 'docker', 'kubernetes']
-
-    return features.map(feature => ({
-      feature,
-      mentions: feedback.filter(f =>
-        f.content.toLowerCase().includes(feature)
-      ).length,
-      sentiment: this.calculateFeatureSentiment(feedback, feature)
-    })).filter(f => f.mentions > 0).sort((a, b) => b.mentions - a.mentions)
-  }
-
-  private calculateFeatureSentiment(feedback: FeedbackItem[], feature: string): string {
-    const featureFeedback = feedback.filter(f =>
-      f.content.toLowerCase().includes(feature)
-    )
-
-    const positive = featureFeedback.filter(f =>
-      f.content.toLowerCase().includes('love') ||
-      f.content.toLowerCase().includes('great') ||
-      f.content.toLowerCase().includes('excellent') ||
-      f.content.toLowerCase().includes('perfect')
-    ).length
-
-    const negative = featureFeedback.filter(f =>
-      f.content.toLowerCase().includes('broken') ||
-      f.content.toLowerCase().includes('slow') ||
-      f.content.toLowerCase().includes('confusing') ||
-      f.content.toLowerCase().includes('missing')
-    ).length
-
-    if (positive > negative) return 'positive'
-    if (negative > positive) return 'negative'
-    return 'neutral'
+  // From the stage's weighted sentiment score; null when it has no scored items
+  private calculateJourneySatisfaction(score: number | null): string {
+    const label = sentimentLabel(score)
+    return label === 'positive' ? 'high' : label === 'negative' ? 'low' : 'medium'
   }
 
   private async extractTrendingTopics(feedback: FeedbackItem[], env: any): Promise<string[]> {
     // Legacy method - keeping for backward compatibility
-    return await this.extractAdvancedTrendingTopics(feedback, env)
+    return await this.extractAdvancedTrendingTopics(feedback, [], env)
   }
 
   private async generateAdvancedRecommendations(feedback: FeedbackItem[], sentimentAnalysis: any, env: any): Promise<string[]> {
@@ -842,10 +1051,12 @@ export class FeedbackAggregator {
     }
   }
 
-  private async generateDynamicPriorityActions(feedback: FeedbackItem[], priorityMatrix: any, env: any): Promise<string[]> {
+  private async generateDynamicPriorityActions(priorityMatrix: any, userJourneyInsights: any): Promise<string[]> {
     const urgentCount = priorityMatrix.urgent?.length || 0
     const highCount = priorityMatrix.high?.length || 0
-    const securityIssues = feedback.filter(f => f.content.toLowerCase().includes('security') || f.content.toLowerCase().includes('vulnerability')).length
+    const categoryCount = (name: string) =>
+      (Object.values(priorityMatrix).flat() as any[]).find(category => category.name === name)?.count || 0
+    const securityIssues = categoryCount('security')
 
     const actions = []
 
@@ -862,11 +1073,7 @@ export class FeedbackAggregator {
     }
 
     // Compatibility actions
-    const compatibilityIssues = feedback.filter(f =>
-      f.content.toLowerCase().includes('docker') ||
-      f.content.toLowerCase().includes('arm64') ||
-      f.content.toLowerCase().includes('ipv6')
-    ).length
+    const compatibilityIssues = categoryCount('compatibility')
 
     if (compatibilityIssues > 1) {
       actions.push('🐳 Add ARM64 Docker container support')
@@ -874,10 +1081,8 @@ export class FeedbackAggregator {
     }
 
     // Feature requests
-    const featureRequests = feedback.filter(f =>
-      f.content.toLowerCase().includes('prometheus') ||
-      f.content.toLowerCase().includes('integration')
-    ).length
+    const featureRequests = userJourneyInsights.journeyStages
+      ?.find((journey: any) => journey.stage === 'Advanced Features')?.feedbackCount || 0
 
     if (featureRequests > 1) {
       actions.push('📊 Add native Prometheus metrics export')
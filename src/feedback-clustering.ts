@@ -0,0 +1,436 @@
+import { FeedbackAggregator, FeedbackItem, FEEDBACK_COLUMNS } from './feedback-aggregator'
+import { FreeTierManager, conservativeDB } from './free-tier-optimizations'
+
+export interface ClusterMember {
+  id: string
+  source_type: string
+  source_id: string
+  title: string
+  created_at: string
+}
+
+export interface FeedbackCluster {
+  id: string
+  // Title of the earliest report
+  title: string
+  size: number
+  sources: string[]
+  first_seen: string
+  last_seen: string
+  items: ClusterMember[]
+}
+
+export interface ClusterRebuildResult {
+  items: number
+  clusters: number
+  duplicates: number
+  changed: number
+}
+
+export interface ClusterRunResult {
+  items: number
+  // Items that joined a stored cluster rather than starting their own
+  joined: number
+  // More items wait for the next run
+  remaining: boolean
+}
+
+// Average similarity between two groups of items (average linkage) at or above which they are
+// treated as the same issue
+export const SIMILARITY_THRESHOLD = 0.2
+
+// Added to the TF-IDF similarity of two items reporting the same kind of symptom in the same
+// product area. The same problem is worded very differently across sources ("dashboard is
+// slow", "page load times exceed 30 seconds"), so word overlap alone stays low.
+const SHARED_SIGNATURE_BONUS = 0.15
+
+// Kinds of failure, matched on title and body
+const SYMPTOMS: Record<string, RegExp> = {
+  slow: /\b(slow(?:ness|er)?|sluggish|laggy|load times?|takes? \d+(?:-\d+)? seconds|performance (?:issues?|problems?|degradation|becomes)|(?:poor|bad|degraded) performance)\b/,
+  crash: /\b(crash(?:es|ed|ing)?|kernel panic|freez(?:es|ing)|hangs)\b/,
+  memory: /\b(memory leaks?|out of memory)\b/,
+  access: /\b(log ?in|sign ?in|cannot access|can't access|inaccessible|locked out)\b/
+}
+
+// Tokens shared by more items than this say nothing about duplication and are skipped
+// when picking candidate pairs
+const MAX_POSTING_SIZE = 50
+
+// Clustered items a cron run compares new ones against, most recent first
+const CLUSTER_CONTEXT = 500
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'been', 'have', 'has',
+  'had', 'not', 'but', 'can', 'cannot', 'could', 'would', 'should', 'will', 'when', 'what', 'which',
+  'who', 'how', 'why', 'our', 'your', 'their', 'they', 'them', 'you', 'its', 'into', 'than', 'then',
+  'there', 'here', 'also', 'just', 'about', 'after', 'before', 'more', 'most', 'some', 'any', 'all',
+  'very', 'really', 'still', 'only', 'even', 'over', 'under', 'out', 'get', 'got', 'use', 'using',
+  'used', 'need', 'needs', 'please', 'thanks', 'thank', 'hello', 'team', 'issue', 'issues', 'problem',
+  'feature', 'request', 'bug', 'report', 'feedback', 'plexnet', 'new', 'love', 'great'
+])
+
+// Lowercased content words with a light suffix strip, so "crashes"/"crashing" match
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+
+  for (const raw of text.toLowerCase().split(/[^a-z0-9]+/)) {
+    if (raw.length < 3 || STOPWORDS.has(raw) || /^\d+$/.test(raw)) continue
+    tokens.push(raw.length > 5 ? raw.replace(/(ing|ed|es|s)$/, '') : raw)
+  }
+
+  return tokens
+}
+
+// Unit-length TF-IDF vectors over title (counted twice) and body. IDF comes from the set
+// being clustered, so words common to most feedback carry little weight.
+function buildVectors(items: FeedbackItem[]): Array<Map<string, number>> {
+  const counts = items.map(item => {
+    const tf = new Map<string, number>()
+    const add = (token: string, weight: number) => tf.set(token, (tf.get(token) || 0) + weight)
+    tokenize(item.title).forEach(token => add(token, 2))
+    tokenize(item.content).forEach(token => add(token, 1))
+    return tf
+  })
+
+  const documentFrequency = new Map<string, number>()
+  counts.forEach(tf => tf.forEach((_, token) => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1)))
+
+  return counts.map(tf => {
+    const vector = new Map<string, number>()
+    let norm = 0
+    tf.forEach((count, token) => {
+      const weight = (1 + Math.log(count)) * Math.log(items.length / documentFrequency.get(token)!)
+      if (weight <= 0) return
+      vector.set(token, weight)
+      norm += weight * weight
+    })
+    norm = Math.sqrt(norm)
+    vector.forEach((weight, token) => vector.set(token, weight / norm))
+    return vector
+  })
+}
+
+export function detectSymptoms(item: FeedbackItem): string[] {
+  const text = `${item.title}\n${item.content}`.toLowerCase()
+  return Object.entries(SYMPTOMS).filter(([, pattern]) => pattern.test(text)).map(([name]) => name)
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a]
+  let dot = 0
+  small.forEach((weight, token) => { dot += weight * (large.get(token) || 0) })
+  return dot
+}
+
+// Greedy average linkage over a sparse similarity graph (`a:b` -> similarity, a < b; pairs not
+// in it count as 0): merges the two groups with the highest mean pairwise similarity while that
+// clears SIMILARITY_THRESHOLD. Unlike single linkage, one borderline pair can't chain two
+// otherwise unrelated groups together. Returns the groups as lists of indexes.
+function averageLinkage(count: number, similarities: Map<string, number>): number[][] {
+  const members = new Map<number, number[]>()
+  // Group -> neighbouring group -> sum of the similarities between their members
+  const links = new Map<number, Map<number, number>>()
+  for (let i = 0; i < count; i++) {
+    members.set(i, [i])
+    links.set(i, new Map())
+  }
+  similarities.forEach((similarity, pair) => {
+    const [a, b] = pair.split(':').map(Number)
+    links.get(a)!.set(b, similarity)
+    links.get(b)!.set(a, similarity)
+  })
+
+  while (true) {
+    let best: { a: number, b: number, average: number } | null = null
+    for (const [a, neighbours] of links) {
+      for (const [b, sum] of neighbours) {
+        if (b <= a) continue
+        const average = sum / (members.get(a)!.length * members.get(b)!.length)
+        if (average >= SIMILARITY_THRESHOLD && (!best || average > best.average)) best = { a, b, average }
+      }
+    }
+    if (!best) break
+
+    const { a, b } = best
+    members.get(a)!.push(...members.get(b)!)
+    members.delete(b)
+    const merged = links.get(a)!
+    merged.delete(b)
+    links.get(b)!.forEach((sum, c) => {
+      if (c === a) return
+      merged.set(c, (merged.get(c) || 0) + sum)
+      const neighbours = links.get(c)!
+      neighbours.delete(b)
+      neighbours.set(a, merged.get(c)!)
+    })
+    links.delete(b)
+  }
+
+  return [...members.values()]
+}
+
+// Key prefix for bare `#123` references: a GitHub item's own repository (empty for fixture
+// rows without one)
+const BARE_REFERENCE = 'bare:'
+
+function bareScope(item: FeedbackItem): string {
+  return `${BARE_REFERENCE}${String(item.metadata?.repository || '').toLowerCase()}`
+}
+
+// Explicit links between items: Jira keys and bug report ids (NET-1234, BR-2024-001),
+// `owner/repo#123` and GitHub issue/PR URLs, found in the body or any comment/reply. A bare
+// `#123` only links GitHub items in the same repository.
+export function findCrossReferences(items: FeedbackItem[]): Array<[string, string]> {
+  const byKey = new Map<string, string[]>()
+  const addKey = (key: string, id: string) => byKey.set(key, [...(byKey.get(key) || []), id])
+
+  items.forEach(item => {
+    if (item.source_type === 'jira' || item.source_type === 'bug-report') {
+      addKey(item.source_id.toUpperCase(), item.id)
+    }
+    if (item.source_type === 'github') {
+      const number = item.source_id.split('/')[1]
+      const repository = item.metadata?.repository
+      addKey(`${bareScope(item)}#${number}`, item.id)
+      if (repository) addKey(`${String(repository).toLowerCase()}#${number}`, item.id)
+    }
+  })
+
+  const pairs: Array<[string, string]> = []
+
+  items.forEach(item => {
+    const thread = [...(item.metadata?.comments || []), ...(item.metadata?.replies || [])]
+    const text = [item.title, item.content, ...thread.map((entry: any) => entry?.content || '')].join('\n')
+    const keys = new Set<string>()
+
+    for (const match of text.matchAll(/\b[A-Z][A-Z0-9]+-\d+(?:-\d+)?\b/g)) keys.add(match[0])
+    for (const match of text.matchAll(/github\.com\/([\w.-]+\/[\w.-]+)\/(?:issues|pull)\/(\d+)/gi)) {
+      keys.add(`${match[1].toLowerCase()}#${match[2]}`)
+    }
+    for (const match of text.matchAll(/(?:([\w.-]+\/[\w.-]+))?#(\d+)\b/g)) {
+      if (match[1]) keys.add(`${match[1].toLowerCase()}#${match[2]}`)
+      else if (item.source_type === 'github') keys.add(`${bareScope(item)}#${match[2]}`)
+    }
+
+    keys.forEach(key => {
+      const targets = byKey.get(key) || []
+      // A bare `#123` is only trusted when it names exactly one item
+      if (key.startsWith(BARE_REFERENCE) && targets.length !== 1) return
+      targets.filter(target => target !== item.id).forEach(target => pairs.push([item.id, target]))
+    })
+  })
+
+  return pairs
+}
+
+// Group near-duplicates and cross-referenced items. `features` holds each item's product areas
+// (taxonomy features from feedback_enrichment); items in different areas are never similar.
+// Returns item id -> cluster id, where the cluster id is derived from the earliest member so it
+// stays stable as reports are added.
+export function clusterFeedback(items: FeedbackItem[], features: Map<string, string[]> = new Map()): Map<string, string> {
+  const parent = new Map<string, string>(items.map(item => [item.id, item.id]))
+  const find = (id: string): string => {
+    let root = id
+    while (parent.get(root) !== root) root = parent.get(root)!
+    parent.set(id, root)
+    return root
+  }
+  const union = (a: string, b: string) => {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA !== rootB) parent.set(rootB, rootA)
+  }
+
+  const vectors = buildVectors(items)
+  const areas = items.map(item => features.get(item.id) || [])
+  // Product area + symptom, e.g. dashboard:slow
+  const signatures = items.map((item, index) => {
+    const symptoms = detectSymptoms(item)
+    return areas[index].flatMap(area => symptoms.map(symptom => `${area}:${symptom}`))
+  })
+
+  // Candidate pairs share at least one reasonably rare token or signature, so we never compare all n²
+  const postings = new Map<string, number[]>()
+  const post = (key: string, index: number) => {
+    const posting = postings.get(key)
+    if (posting) posting.push(index)
+    else postings.set(key, [index])
+  }
+  vectors.forEach((vector, index) => vector.forEach((_, token) => post(token, index)))
+  signatures.forEach((keys, index) => keys.forEach(key => post(`signature:${key}`, index)))
+
+  const similarities = new Map<string, number>()
+  postings.forEach(indexes => {
+    if (indexes.length < 2 || indexes.length > MAX_POSTING_SIZE) return
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const [a, b] = [indexes[i], indexes[j]]
+        const pair = `${a}:${b}`
+        if (similarities.has(pair)) continue
+        const sameArea = areas[a].some(area => areas[b].includes(area))
+        if (!sameArea && areas[a].length > 0 && areas[b].length > 0) {
+          similarities.set(pair, 0)
+          continue
+        }
+        const sharedSignature = signatures[a].some(key => signatures[b].includes(key))
+        similarities.set(pair, cosine(vectors[a], vectors[b]) + (sharedSignature ? SHARED_SIGNATURE_BONUS : 0))
+      }
+    }
+  })
+
+  for (const group of averageLinkage(items.length, similarities)) {
+    group.forEach(index => union(items[group[0]].id, items[index].id))
+  }
+  findCrossReferences(items).forEach(([a, b]) => union(a, b))
+
+  // Name each cluster after its earliest member
+  const earliest = new Map<string, FeedbackItem>()
+  items.forEach(item => {
+    const root = find(item.id)
+    const current = earliest.get(root)
+    if (!current || item.created_at < current.created_at || (item.created_at === current.created_at && item.id < current.id)) {
+      earliest.set(root, item)
+    }
+  })
+
+  return new Map(items.map(item => [item.id, `cluster_${earliest.get(find(item.id))!.id}`]))
+}
+
+// Persists cluster ids in feedback.cluster_id and serves /api/clusters
+export class FeedbackClustering {
+  private feedbackAggregator = new FeedbackAggregator()
+  private freeTierManager = FreeTierManager.getInstance()
+
+  // Cron: new or edited items have no cluster yet. Up to conservativeDB.maxResults of them are
+  // grouped with the CLUSTER_CONTEXT most recent clustered items; each joins the stored cluster
+  // it lands with, or starts its own. Stored assignments are left alone, so a new report never
+  // merges two existing clusters; POST /api/admin/clusters/rebuild regroups everything.
+  async clusterPending(env: any): Promise<ClusterRunResult | null> {
+    if (!this.freeTierManager.canReadFromD1(conservativeDB.maxResults + CLUSTER_CONTEXT)) return null
+
+    const pending = await this.load(env, 'WHERE cluster_id IS NULL ORDER BY created_at ASC LIMIT ?', conservativeDB.maxResults)
+    if (pending.items.length === 0) return null
+    if (!this.freeTierManager.canWriteToD1(pending.items.length)) return null
+    const context = await this.load(env, 'WHERE cluster_id IS NOT NULL ORDER BY created_at DESC LIMIT ?', CLUSTER_CONTEXT)
+
+    const assignments = clusterFeedback([...context.items, ...pending.items], new Map([...context.features, ...pending.features]))
+
+    // Each group found takes the stored cluster of its earliest clustered member
+    const storedClusters = new Map<string, string>()
+    context.items.slice().reverse().forEach(item => {
+      const group = assignments.get(item.id)!
+      if (!storedClusters.has(group)) storedClusters.set(group, item.cluster_id!)
+    })
+    const clusterIds = new Map(pending.items.map(item => [item.id, storedClusters.get(assignments.get(item.id)!) || assignments.get(item.id)!]))
+
+    await this.save(pending.items, clusterIds, env)
+
+    return {
+      items: pending.items.length,
+      joined: pending.items.filter(item => storedClusters.has(assignments.get(item.id)!)).length,
+      remaining: pending.items.length === conservativeDB.maxResults
+    }
+  }
+
+  // Regroups every item; reads and may rewrite the whole table, so only the admin route runs it
+  async rebuild(env: any): Promise<ClusterRebuildResult> {
+    const total = await env.FEEDBACK_DB.prepare('SELECT COUNT(*) AS count FROM feedback').first()
+    if (!this.freeTierManager.canReadFromD1(total.count) || !this.freeTierManager.canWriteToD1(total.count)) {
+      throw new Error('Not enough D1 budget left to recluster every item')
+    }
+
+    const { items, features } = await this.load(env, '')
+    const assignments = clusterFeedback(items, features)
+
+    // Only write rows whose cluster changed
+    const changed = items.filter(item => item.cluster_id !== assignments.get(item.id))
+    await this.save(changed, assignments, env)
+
+    const clusterSizes = new Map<string, number>()
+    assignments.forEach(clusterId => clusterSizes.set(clusterId, (clusterSizes.get(clusterId) || 0) + 1))
+
+    return {
+      items: items.length,
+      clusters: clusterSizes.size,
+      duplicates: items.length - clusterSizes.size,
+      changed: changed.length
+    }
+  }
+
+  // Items with their product areas. Comments and replies come along so cross-references made
+  // in a thread count too.
+  private async load(env: any, clause: string, ...params: unknown[]): Promise<{ items: FeedbackItem[], features: Map<string, string[]> }> {
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT ${FEEDBACK_COLUMNS}, (SELECT features FROM feedback_enrichment WHERE feedback_id = feedback.id) AS features
+      FROM feedback ${clause}
+    `).bind(...params).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    return {
+      items: rows.map(row => this.feedbackAggregator.mapRow(row)),
+      features: new Map(rows.map(row => [row.id, row.features ? JSON.parse(row.features) : []]))
+    }
+  }
+
+  private async save(items: FeedbackItem[], clusterIds: Map<string, string>, env: any): Promise<void> {
+    const stmt = env.FEEDBACK_DB.prepare('UPDATE feedback SET cluster_id = ? WHERE id = ?')
+    for (let i = 0; i < items.length; i += conservativeDB.batchSize) {
+      const chunk = items.slice(i, i + conservativeDB.batchSize)
+      await env.FEEDBACK_DB.batch(chunk.map(item => stmt.bind(clusterIds.get(item.id), item.id)))
+      this.freeTierManager.recordD1RowsWritten(chunk.length)
+    }
+
+    if (items.length > 0) await this.feedbackAggregator.invalidateCaches(env)
+  }
+
+  // Clusters with at least `minSize` members, largest first
+  async getClusters(env: any, minSize: number = 2): Promise<FeedbackCluster[]> {
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT id, source_type, source_id, title, created_at, cluster_id
+      FROM feedback
+      WHERE cluster_id IN (
+        SELECT cluster_id FROM feedback
+        WHERE cluster_id IS NOT NULL
+        GROUP BY cluster_id
+        HAVING COUNT(*) >= ?
+      )
+      ORDER BY created_at ASC
+    `).bind(minSize).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    const clusters = new Map<string, ClusterMember[]>()
+    rows.forEach(row => {
+      const { cluster_id, ...member } = row
+      clusters.set(cluster_id, [...(clusters.get(cluster_id) || []), member])
+    })
+
+    return [...clusters.entries()]
+      .map(([id, members]) => this.toCluster(id, members))
+      .sort((a, b) => b.size - a.size || b.last_seen.localeCompare(a.last_seen))
+  }
+
+  async getCluster(id: string, env: any): Promise<FeedbackCluster | null> {
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT id, source_type, source_id, title, created_at
+      FROM feedback WHERE cluster_id = ?
+      ORDER BY created_at ASC
+    `).bind(id).all()
+    const members: ClusterMember[] = result.results || []
+
+    return members.length > 0 ? this.toCluster(id, members) : null
+  }
+
+  private toCluster(id: string, members: ClusterMember[]): FeedbackCluster {
+    return {
+      id,
+      title: members[0].title,
+      size: members.length,
+      sources: [...new Set(members.map(member => member.source_type))],
+      first_seen: members[0].created_at,
+      last_seen: members[members.length - 1].created_at,
+      items: members
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import type { FeedbackItem } from './feedback-aggregator'
+import { normalizeThread } from './source-normalizers'
+import { PiiType, redactFeedback } from './pii-redaction'
+import { LEXICON_METHOD, SentimentScore, lexiconSentiment } from './feedback-sentiment'
+import { SeverityFactor, SeverityModel, scoreSeverity } from './severity-model'
+import { Taxonomy, matchTaxonomy } from './taxonomy'
+
+// Bump whenever a rule below (or a redaction rule in pii-redaction, or the sentiment lexicon in
+// feedback-sentiment) changes. Rows enriched under an older version, under another taxonomy
+// (categories, journey stages and features live in D1, see taxonomy.ts) or under other severity
+// weights (SEVERITY_WEIGHTS), are recomputed by FeedbackAggregator.reenrichStale (cron, or
+// POST /api/admin/enrichment/rerun).
+export const ENRICHMENT_RULES_VERSION = 3
+
+// Everything the analytics and AI prompts need from one item, stored in feedback_enrichment at ingest
+export interface FeedbackEnrichment {
+  categories: string[]
+  priorityCategories: string[]
+  severity: number
+  // Why the item got its severity, factor by factor
+  severityBreakdown: SeverityFactor[]
+  // Counted as a critical issue in the summary
+  critical: boolean
+  // Mentions any critical keyword; candidates for the ranked critical issues in the insights
+  criticalMention: boolean
+  featureRequest: boolean
+  layers: string[]
+  journeyStages: string[]
+  painPoints: string[]
+  features: string[]
+  // From the keyword lexicon; FeedbackSentiment replaces it with the model's score later
+  sentiment: SentimentScore
+  // Prompt-safe copy: title and conversation with PII masked, and which kinds were found
+  redactedTitle: string
+  redactedContent: string
+  pii: PiiType[]
+}
+
+const CRITICAL_LABELS = ['security', 'critical']
+const CRITICAL_PHRASES = ['vulnerability', 'crash']
+
+// Matched against the conversation and (as substrings) the item's labels
+const CRITICAL_KEYWORDS = [
+  'security', 'vulnerability', 'sql-injection', 'crash', 'data loss',
+  'memory leak', 'performance degradation', 'blocking', 'critical',
+  'emergency', 'breach', 'exploit'
+]
+
+const FEATURE_REQUEST_PHRASES = ['feature request', 'would be great']
+
+// OSI layer -> keywords; security issues count against both session and presentation
+const SECURITY_LAYER_KEYWORDS = ['security', 'vulnerability', 'injection', 'attack']
+export const NETWORK_LAYER_KEYWORDS: Record<string, string[]> = {
+  'Physical Layer': ['cable', 'connector', 'fiber', 'physical', 'hardware'],
+  'Data Link Layer': ['mac', 'switch', 'vlan', 'bridge', 'ethernet'],
+  'Network Layer': ['ip', 'routing', 'subnet', 'arp', 'icmp', 'ipv6'],
+  'Transport Layer': ['tcp', 'udp', 'port', 'qos', 'congestion'],
+  'Session Layer': SECURITY_LAYER_KEYWORDS,
+  'Presentation Layer': SECURITY_LAYER_KEYWORDS,
+  'Application Layer': ['http', 'dns', 'snmp', 'monitoring', 'prometheus']
+}
+
+const PAIN_POINTS = [
+  'slow', 'crashing', 'confusing', 'broken', 'missing', 'inconsistent',
+  'unreliable', 'complex', 'difficult', 'frustrating', 'blocking', 'error'
+]
+
+// Title, body and every comment/reply, lowercased for keyword matching
+export function conversationText(feedback: FeedbackItem): string {
+  const thread = [...normalizeThread(feedback.metadata?.comments), ...normalizeThread(feedback.metadata?.replies)]
+  return [feedback.title, feedback.content, ...thread.map(entry => entry.content)].join('\n').toLowerCase()
+}
+
+function matching(rules: Record<string, string[]>, text: string): string[] {
+  return Object.entries(rules)
+    .filter(([, keywords]) => keywords.some(keyword => text.includes(keyword)))
+    .map(([name]) => name)
+}
+
+// OSI layers the (lowercased) conversation mentions
+export function detectLayers(text: string): string[] {
+  return matching(NETWORK_LAYER_KEYWORDS, text)
+}
+
+// Categories are the item's labels plus every matching taxonomy category; those with a priority
+// also go to the priority matrix
+export function enrichFeedback(feedback: FeedbackItem, taxonomy: Taxonomy, severityModel: SeverityModel): FeedbackEnrichment {
+  const text = conversationText(feedback)
+  const { severity, breakdown } = scoreSeverity(feedback, text, severityModel)
+  const labels: string[] = (feedback.metadata?.labels || []).map((label: any) => String(label))
+  const lowerLabels = labels.map(label => label.toLowerCase())
+  const redacted = redactFeedback(feedback)
+
+  const topics = matchTaxonomy(taxonomy, 'category', text, labels)
+  const categories = new Set([...labels, ...topics.map(rule => rule.name)])
+  const priorityCategories = topics.filter(rule => rule.priority).map(rule => rule.name)
+
+  return {
+    categories: [...categories],
+    priorityCategories,
+    severity,
+    severityBreakdown: breakdown,
+    critical: CRITICAL_LABELS.some(label => labels.includes(label)) || CRITICAL_PHRASES.some(phrase => text.includes(phrase)),
+    criticalMention: CRITICAL_KEYWORDS.some(keyword => text.includes(keyword) || lowerLabels.some(label => label.includes(keyword))),
+    featureRequest: (feedback.source_type === 'github' && feedback.metadata?.state === 'open' && labels.includes('enhancement')) ||
+      FEATURE_REQUEST_PHRASES.some(phrase => text.includes(phrase)),
+    layers: detectLayers(text),
+    journeyStages: matchTaxonomy(taxonomy, 'journey_stage', text, labels).map(rule => rule.name),
+    painPoints: PAIN_POINTS.filter(point => text.includes(point)),
+    features: matchTaxonomy(taxonomy, 'feature', text, labels).map(rule => rule.name),
+    sentiment: lexiconSentiment(text),
+    redactedTitle: redacted.title,
+    redactedContent: redacted.content,
+    pii: redacted.found
+  }
+}
+
+// A model's sentiment score outlives re-enrichment as long as the text it read is unchanged
+const KEEP_MODEL_SENTIMENT = `
+  feedback_enrichment.sentiment_method <> '${LEXICON_METHOD}'
+  AND feedback_enrichment.redacted_title IS excluded.redacted_title
+  AND feedback_enrichment.redacted_content IS excluded.redacted_content
+`
+
+// Upsert for one item's feedback_enrichment row; bind with enrichmentBinds
+export const ENRICHMENT_UPSERT = `
+  INSERT INTO feedback_enrichment (
+    feedback_id, categories, priority_categories, severity, severity_breakdown, critical, critical_mention,
+    feature_request, layers, journey_stages, pain_points, features, sentiment, sentiment_score,
+    sentiment_confidence, sentiment_method, redacted_title, redacted_content, pii, rules_version,
+    taxonomy_version, severity_version, enriched_at
+  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, '${LEXICON_METHOD}', ?, ?, ?, ?, ?, ?, ?)
+  ON CONFLICT (feedback_id) DO UPDATE SET
+    categories = excluded.categories,
+    priority_categories = excluded.priority_categories,
+    severity = excluded.severity,
+    severity_breakdown = excluded.severity_breakdown,
+    critical = excluded.critical,
+    critical_mention = excluded.critical_mention,
+    feature_request = excluded.feature_request,
+    layers = excluded.layers,
+    journey_stages = excluded.journey_stages,
+    pain_points = excluded.pain_points,
+    features = excluded.features,
+    sentiment = CASE WHEN ${KEEP_MODEL_SENTIMENT} THEN feedback_enrichment.sentiment ELSE excluded.sentiment END,
+    sentiment_score = CASE WHEN ${KEEP_MODEL_SENTIMENT} THEN feedback_enrichment.sentiment_score ELSE excluded.sentiment_score END,
+    sentiment_confidence = CASE WHEN ${KEEP_MODEL_SENTIMENT} THEN feedback_enrichment.sentiment_confidence ELSE excluded.sentiment_confidence END,
+    sentiment_method = CASE WHEN ${KEEP_MODEL_SENTIMENT} THEN feedback_enrichment.sentiment_method ELSE excluded.sentiment_method END,
+    redacted_title = excluded.redacted_title,
+    redacted_content = excluded.redacted_content,
+    pii = excluded.pii,
+    rules_version = excluded.rules_version,
+    taxonomy_version = excluded.taxonomy_version,
+    severity_version = excluded.severity_version,
+    enriched_at = excluded.enriched_at
+`
+
+export function enrichmentBinds(feedback: FeedbackItem, taxonomy: Taxonomy, severityModel: SeverityModel, enrichedAt: string): any[] {
+  const enrichment = enrichFeedback(feedback, taxonomy, severityModel)
+  return [
+    feedback.id,
+    JSON.stringify(enrichment.categories),
+    JSON.stringify(enrichment.priorityCategories),
+    enrichment.severity,
+    JSON.stringify(enrichment.severityBreakdown),
+    enrichment.critical ? 1 : 0,
+    enrichment.criticalMention ? 1 : 0,
+    enrichment.featureRequest ? 1 : 0,
+    JSON.stringify(enrichment.layers),
+    JSON.stringify(enrichment.journeyStages),
+    JSON.stringify(enrichment.painPoints),
+    JSON.stringify(enrichment.features),
+    enrichment.sentiment.label,
+    enrichment.sentiment.score,
+    enrichment.sentiment.confidence,
+    enrichment.redactedTitle,
+    enrichment.redactedContent,
+    JSON.stringify(enrichment.pii),
+    ENRICHMENT_RULES_VERSION,
+    taxonomy.version,
+    severityModel.version,
+    enrichedAt
+  ]
+}
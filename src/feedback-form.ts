@@ -0,0 +1,171 @@
+import { FeedbackAggregator } from './feedback-aggregator'
+import { FreeTierManager } from './free-tier-optimizations'
+import { normalizeRecord } from './source-normalizers'
+import { validateFeedbackItem, FieldError } from './feedback-validation'
+import { sha256Hex } from './crypto-utils'
+import type { AuditContext } from './audit-log'
+
+// How changes from the public feedback widget appear in the audit log
+const AUDIT: AuditContext = { actor: 'form', route: 'POST /api/forms/submit' }
+
+export const FORM_VERSION = '3.0.0'
+
+// Hidden input real users never see or fill in; bots that fill every field give themselves away
+export const HONEYPOT_FIELD = 'website'
+
+export const FORM_TYPES = ['ui_feedback', 'feature_feedback', 'bug_report', 'feature_request', 'performance_issue']
+
+// Defaults; override with FORM_RATE_LIMIT (submissions per window per client)
+const DEFAULT_RATE_LIMIT = 5
+const RATE_LIMIT_WINDOW_SECONDS = 600
+
+const MAX_CONTENT_LENGTH = 10000
+const MAX_FORM_FIELDS = 20
+
+export interface FormSubmissionResult {
+  status: 'created' | 'spam' | 'rate_limited' | 'invalid'
+  id?: string
+  errors?: FieldError[]
+  retryAfter?: number
+}
+
+// Best-effort User-Agent parsing into the browser_info shape the fixtures use
+export function parseBrowserInfo(userAgent: string): { browser: string, version: string, os: string } {
+  const browsers: Array<[string, RegExp]> = [
+    ['Edge', /Edg\/([\d.]+)/],
+    ['Firefox', /Firefox\/([\d.]+)/],
+    ['Chrome', /Chrome\/([\d.]+)/],
+    ['Safari Mobile', /Version\/([\d.]+).*Mobile.*Safari/],
+    ['Safari', /Version\/([\d.]+).*Safari/]
+  ]
+  const systems: Array<[string, RegExp]> = [
+    ['Windows 10', /Windows NT 10/],
+    ['Windows', /Windows/],
+    ['iOS', /iPhone|iPad/],
+    ['Android', /Android/],
+    ['macOS', /Mac OS X/],
+    ['Linux', /Linux/]
+  ]
+
+  const browser = browsers.find(([, pattern]) => pattern.test(userAgent))
+  const os = systems.find(([, pattern]) => pattern.test(userAgent))
+
+  return {
+    browser: browser ? browser[0] : 'Unknown',
+    version: browser ? userAgent.match(browser[1])![1] : '',
+    os: os ? os[0] : 'Unknown'
+  }
+}
+
+// Public submissions from the embeddable dashboard widget, stored as `dashboard-form` feedback
+// shaped like data/dashboard-forms.json
+export class FeedbackForm {
+  private feedbackAggregator = new FeedbackAggregator()
+  private freeTierManager = FreeTierManager.getInstance()
+
+  async handleSubmission(body: any, clientIp: string, userAgent: string, env: any): Promise<FormSubmissionResult> {
+    // Pretend the honeypot submission worked so the bot has nothing to adapt to
+    if (body && typeof body[HONEYPOT_FIELD] === 'string' && body[HONEYPOT_FIELD].trim() !== '') {
+      console.log('Dropped dashboard form submission: honeypot filled')
+      return { status: 'spam' }
+    }
+
+    const errors = this.validateSubmission(body)
+    if (errors.length > 0) return { status: 'invalid', errors }
+
+    const retryAfter = await this.checkRateLimit(clientIp, env)
+    if (retryAfter !== null) return { status: 'rate_limited', retryAfter }
+
+    const now = new Date()
+    const content = body.content.trim()
+    const firstLine = content.split('\n')[0]
+    const title = typeof body.title === 'string' && body.title.trim()
+      ? body.title.trim()
+      : firstLine.length > 80 ? `${firstLine.substring(0, 77)}...` : firstLine
+
+    const record = normalizeRecord({
+      source_type: 'dashboard-form',
+      source_id: `feedback_${now.toISOString().slice(0, 10).replace(/-/g, '')}_${crypto.randomUUID().slice(0, 8)}`,
+      title,
+      content,
+      author: typeof body.name === 'string' && body.name.trim() ? body.name.trim() : 'Anonymous',
+      author_email: typeof body.email === 'string' && body.email.trim() ? body.email.trim() : undefined,
+      created_at: now.toISOString(),
+      metadata: {
+        form_type: body.form_type || 'ui_feedback',
+        form_version: typeof body.form_version === 'string' ? body.form_version : FORM_VERSION,
+        url: typeof body.url === 'string' ? body.url : undefined,
+        user_agent: userAgent,
+        rating: body.rating !== undefined ? Number(body.rating) : undefined,
+        category: typeof body.category === 'string' ? body.category.trim().toLowerCase() : undefined,
+        browser_info: parseBrowserInfo(userAgent),
+        // The fixtures store every form answer as a string
+        form_fields: Object.fromEntries(
+          Object.entries(body.form_fields || {}).map(([key, value]) => [key, String(value)])
+        )
+      }
+    }, 'dashboard-form')
+
+    const { item, errors: itemErrors } = validateFeedbackItem(record)
+    if (!item) return { status: 'invalid', errors: itemErrors }
+
+    await this.feedbackAggregator.processFeedbackDirectly([item], env, AUDIT)
+    return { status: 'created', id: item.id }
+  }
+
+  // Drop counters for windows that have closed; called from the cron trigger
+  async pruneRateLimits(env: any): Promise<void> {
+    const cutoff = Math.floor(Date.now() / 1000) - RATE_LIMIT_WINDOW_SECONDS
+    await env.FEEDBACK_DB.prepare('DELETE FROM form_rate_limits WHERE window_start < ?').bind(cutoff).run()
+  }
+
+  private validateSubmission(body: any): FieldError[] {
+    const errors: FieldError[] = []
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return [{ field: 'body', message: 'must be a JSON object' }]
+    }
+    if (typeof body.content !== 'string' || body.content.trim() === '') {
+      errors.push({ field: 'content', message: 'is required' })
+    } else if (body.content.length > MAX_CONTENT_LENGTH) {
+      errors.push({ field: 'content', message: `must be at most ${MAX_CONTENT_LENGTH} characters` })
+    }
+    if (body.form_type !== undefined && !FORM_TYPES.includes(body.form_type)) {
+      errors.push({ field: 'form_type', message: `must be one of: ${FORM_TYPES.join(', ')}` })
+    }
+    if (body.rating !== undefined && ![1, 2, 3, 4, 5].includes(Number(body.rating))) {
+      errors.push({ field: 'rating', message: 'must be an integer from 1 to 5' })
+    }
+    if (body.email !== undefined && body.email !== '' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(body.email))) {
+      errors.push({ field: 'email', message: 'must be a valid email address' })
+    }
+    if (body.form_fields !== undefined) {
+      const fields = body.form_fields
+      if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+        errors.push({ field: 'form_fields', message: 'must be an object' })
+      } else if (Object.keys(fields).length > MAX_FORM_FIELDS) {
+        errors.push({ field: 'form_fields', message: `must have at most ${MAX_FORM_FIELDS} fields` })
+      }
+    }
+
+    return errors
+  }
+
+  // Fixed-window counter in D1; returns seconds until the window resets when over the limit.
+  // The IP is hashed so raw addresses are never stored.
+  private async checkRateLimit(clientIp: string, env: any): Promise<number | null> {
+    const limit = Number(env.FORM_RATE_LIMIT) || DEFAULT_RATE_LIMIT
+    const now = Math.floor(Date.now() / 1000)
+    const windowStart = now - (now % RATE_LIMIT_WINDOW_SECONDS)
+    const clientHash = await sha256Hex(`form:${clientIp}`)
+
+    const row = await env.FEEDBACK_DB.prepare(`
+      INSERT INTO form_rate_limits (client_hash, window_start, count) VALUES (?, ?, 1)
+      ON CONFLICT (client_hash, window_start) DO UPDATE SET count = count + 1
+      RETURNING count
+    `).bind(clientHash, windowStart).first()
+    this.freeTierManager.recordD1RowsWritten(1)
+
+    return row && row.count > limit ? windowStart + RATE_LIMIT_WINDOW_SECONDS - now : null
+  }
+}
@@ -0,0 +1,286 @@
+import { FeedbackAggregator, FeedbackItem, FEEDBACK_COLUMNS } from './feedback-aggregator'
+import { FreeTierManager, conservativeDB } from './free-tier-optimizations'
+import { validateFeedbackItem, FieldError } from './feedback-validation'
+import { buildFeedbackWhere, FeedbackFilters } from './feedback-query'
+import type { AuditContext } from './audit-log'
+
+export type BulkFormat = 'ndjson' | 'csv'
+
+export interface ImportOptions {
+  format: BulkFormat
+  // Source column/key -> FeedbackItem field, e.g. { "Summary": "title", "Prio": "metadata.priority" }
+  mapping: Record<string, string>
+  // Used for rows that don't carry their own source_type
+  defaultSourceType?: string
+  // Who the imported rows are attributed to in the audit log
+  audit?: AuditContext
+}
+
+export interface RowError extends FieldError {
+  row: number
+}
+
+export interface ImportResult {
+  imported: number
+  failed: number
+  ids: string[]
+  errors: RowError[]
+  stoppedForBudget: boolean
+}
+
+const ITEM_FIELDS = ['id', 'source_type', 'source_id', 'title', 'content', 'author', 'created_at', 'metadata']
+const CSV_COLUMNS = ['id', 'source_type', 'source_id', 'title', 'content', 'author', 'created_at', 'metadata']
+
+// CSV cells are flat strings; these metadata fields are lists or numbers in the fixtures
+const CSV_LIST_FIELDS = ['labels', 'tags', 'components', 'cc', 'attachments']
+const CSV_NUMBER_FIELDS = ['rating', 'comments_count']
+
+// Mapping parameter accepts JSON (`{"Summary":"title"}`) or a compact `Summary:title,Prio:metadata.priority`
+export function parseColumnMapping(value: string | undefined): Record<string, string> {
+  if (!value) return {}
+  const trimmed = value.trim()
+  if (trimmed.startsWith('{')) return JSON.parse(trimmed)
+
+  const mapping: Record<string, string> = {}
+  trimmed.split(',').forEach(pair => {
+    const [from, to] = pair.split(':').map(part => part.trim())
+    if (from && to) mapping[from] = to
+  })
+  return mapping
+}
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and newlines
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      if (row.some(cell => cell !== '')) rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  row.push(field)
+  if (row.some(cell => cell !== '')) rows.push(row)
+  return rows
+}
+
+function csvEscape(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export class FeedbackImportExport {
+  private feedbackAggregator = new FeedbackAggregator()
+  private freeTierManager = FreeTierManager.getInstance()
+
+  // Bad rows are reported and skipped; good rows are written in conservativeDB.batchSize chunks
+  async importFeedback(body: string, options: ImportOptions, env: any): Promise<ImportResult> {
+    const result: ImportResult = { imported: 0, failed: 0, ids: [], errors: [], stoppedForBudget: false }
+    const valid: Array<{ row: number, item: FeedbackItem, explicitId: boolean }> = []
+
+    this.parseRows(body, options).forEach(({ row, record, error }) => {
+      if (error) {
+        result.errors.push({ row, field: 'row', message: error })
+        result.failed++
+        return
+      }
+
+      const mapped = this.applyMapping(record!, options)
+      const { item, errors } = validateFeedbackItem(mapped, `row[${row}]`)
+      if (item) {
+        valid.push({ row, item, explicitId: Boolean(mapped.id) })
+      } else {
+        result.errors.push(...errors.map(e => ({ row, ...e })))
+        result.failed++
+      }
+    })
+
+    for (let i = 0; i < valid.length; i += conservativeDB.batchSize) {
+      const chunk = valid.slice(i, i + conservativeDB.batchSize)
+
+      if (!this.freeTierManager.canWriteToD1(chunk.length)) {
+        result.stoppedForBudget = true
+        chunk.concat(valid.slice(i + conservativeDB.batchSize)).forEach(({ row }) => {
+          result.errors.push({ row, field: 'row', message: 'Not imported: D1 write budget reached' })
+          result.failed++
+        })
+        break
+      }
+
+      try {
+        await this.reuseExistingIds(chunk.filter(entry => !entry.explicitId).map(entry => entry.item), env)
+        const items = chunk.map(entry => entry.item)
+        await this.feedbackAggregator.storeFeedbackBatch(items, env, options.audit)
+        result.ids.push(...items.map(item => item.id))
+        result.imported += items.length
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        chunk.forEach(({ row }) => result.errors.push({ row, field: 'row', message: `Write failed: ${message}` }))
+        result.failed += chunk.length
+      }
+    }
+
+    if (result.imported > 0) await this.feedbackAggregator.invalidateCaches(env)
+    return result
+  }
+
+  // Stream the table page by page (keyset pagination) so large exports never sit in memory
+  exportFeedback(format: BulkFormat, filters: FeedbackFilters, env: any): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder()
+    const { clause, binds } = buildFeedbackWhere(filters)
+    let cursor: { created_at: string, id: string } | null = null
+    let headerSent = false
+
+    return new ReadableStream({
+      pull: async (controller) => {
+        if (format === 'csv' && !headerSent) {
+          controller.enqueue(encoder.encode(CSV_COLUMNS.join(',') + '\n'))
+          headerSent = true
+        }
+
+        const pageClause: string = cursor ? `${clause} AND (created_at, id) > (?, ?)` : clause
+        const pageBinds: any[] = cursor ? [...binds, cursor.created_at, cursor.id] : binds
+        const result = await env.FEEDBACK_DB.prepare(`
+          SELECT ${FEEDBACK_COLUMNS}
+          FROM feedback
+          WHERE ${pageClause}
+          ORDER BY created_at, id
+          LIMIT ?
+        `).bind(...pageBinds, conservativeDB.maxResults).all()
+
+        const rows: any[] = result.results || []
+        this.freeTierManager.recordD1RowsRead(rows.length)
+
+        if (rows.length > 0) {
+          const lines = rows.map(row => {
+            const item: Record<string, any> = this.feedbackAggregator.mapRow(row)
+            return format === 'csv'
+              ? CSV_COLUMNS.map(column => csvEscape(column === 'metadata' ? JSON.stringify(item.metadata) : String(item[column] ?? ''))).join(',')
+              : JSON.stringify(item)
+          })
+          controller.enqueue(encoder.encode(lines.join('\n') + '\n'))
+          cursor = { created_at: rows[rows.length - 1].created_at, id: rows[rows.length - 1].id }
+        }
+
+        if (rows.length < conservativeDB.maxResults) controller.close()
+      }
+    })
+  }
+
+  private parseRows(body: string, options: ImportOptions): Array<{ row: number, record?: Record<string, any>, error?: string }> {
+    if (options.format === 'ndjson') {
+      return body.split(/\r?\n/)
+        .map((line, index) => ({ line: line.trim(), row: index + 1 }))
+        .filter(({ line }) => line !== '')
+        .map(({ line, row }) => {
+          try {
+            const record = JSON.parse(line)
+            return typeof record === 'object' && record !== null && !Array.isArray(record)
+              ? { row, record }
+              : { row, error: 'Line is not a JSON object' }
+          } catch {
+            return { row, error: 'Line is not valid JSON' }
+          }
+        })
+    }
+
+    const [header, ...rows] = parseCsv(body)
+    if (!header) return []
+
+    // Row numbers count the header as row 1, matching what a spreadsheet shows
+    return rows.map((cells, index) => {
+      if (cells.length !== header.length) {
+        return { row: index + 2, error: `Expected ${header.length} columns, got ${cells.length}` }
+      }
+      const record: Record<string, any> = {}
+      header.forEach((column, i) => { record[column.trim()] = cells[i] })
+      return { row: index + 2, record }
+    })
+  }
+
+  // Rename keys per the mapping; unknown keys are kept as metadata
+  private applyMapping(record: Record<string, any>, options: ImportOptions): Record<string, any> {
+    const item: Record<string, any> = { metadata: {} }
+
+    for (const [key, value] of Object.entries(record)) {
+      const target = options.mapping[key] || key
+      if (value === '' && options.format === 'csv') continue
+      // Exports carry cluster_id, but clustering recomputes it
+      if (target === 'cluster_id') continue
+
+      if (target === 'metadata') {
+        Object.assign(item.metadata, typeof value === 'string' ? this.parseJsonObject(value) : value)
+      } else if (target.startsWith('metadata.')) {
+        const field = target.slice('metadata.'.length)
+        item.metadata[field] = options.format === 'csv' ? this.coerceCsvValue(field, value) : value
+      } else if (ITEM_FIELDS.includes(target)) {
+        item[target] = value
+      } else {
+        item.metadata[target] = options.format === 'csv' ? this.coerceCsvValue(target, value) : value
+      }
+    }
+
+    if (!item.source_type && options.defaultSourceType) item.source_type = options.defaultSourceType
+    return item
+  }
+
+  private coerceCsvValue(field: string, value: string): any {
+    if (CSV_LIST_FIELDS.includes(field)) return value.split(';').map(part => part.trim()).filter(Boolean)
+    if (CSV_NUMBER_FIELDS.includes(field) && value.trim() !== '' && !isNaN(Number(value))) return Number(value)
+    return value
+  }
+
+  private parseJsonObject(value: string): Record<string, any> {
+    try {
+      const parsed = JSON.parse(value)
+      return typeof parsed === 'object' && parsed !== null ? parsed : {}
+    } catch {
+      return {}
+    }
+  }
+
+  // Rows without an id update the item already stored for the same source record
+  // instead of duplicating it
+  private async reuseExistingIds(withoutExplicitId: FeedbackItem[], env: any): Promise<void> {
+    if (withoutExplicitId.length === 0) return
+
+    const placeholders = withoutExplicitId.map(() => '(?, ?)').join(', ')
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT id, source_type, source_id FROM feedback
+      WHERE (source_type, source_id) IN (VALUES ${placeholders})
+    `).bind(...withoutExplicitId.flatMap(item => [item.source_type, item.source_id])).all()
+
+    const existing = new Map<string, string>()
+    ;(result.results || []).forEach((row: any) => existing.set(`${row.source_type}\u0000${row.source_id}`, row.id))
+    this.freeTierManager.recordD1RowsRead(existing.size)
+
+    withoutExplicitId.forEach(item => {
+      const id = existing.get(`${item.source_type}\u0000${item.source_id}`)
+      if (id) item.id = id
+    })
+  }
+}
@@ -0,0 +1,122 @@
+import { normalizeSourceType } from './source-normalizers'
+import { normalizeTriageStatus } from './feedback-triage'
+
+export interface FeedbackFilters {
+  source_type?: string
+  author?: string
+  from?: string
+  to?: string
+  label?: string
+  // Stored enrichment (feedback_enrichment)
+  category?: string
+  severity?: number
+  min_severity?: number
+  // Triage (feedback_triage; items without a row are `new`)
+  status?: string
+  assignee?: string
+  // Account id (matched through account_rules)
+  account?: string
+}
+
+// The address an item was sent from, lowercased: metadata.author_email, an email's `from`, or
+// an author that is itself an address
+const AUTHOR_EMAIL = `lower(COALESCE(
+  json_extract(metadata, '$.author_email'), json_extract(metadata, '$.from'), CASE WHEN author LIKE '%_@_%' THEN author END
+))`
+const AUTHOR_DOMAIN = `substr(${AUTHOR_EMAIL}, instr(${AUTHOR_EMAIL}, '@') + 1)`
+
+// True when the account_rules row `r` covers the current feedback row: the author matches, or
+// the sender's domain is the rule's domain or a subdomain of it
+export const ACCOUNT_RULE_MATCH = `(
+  (r.kind = 'author' AND lower(author) = r.pattern) OR
+  (r.kind = 'domain' AND (${AUTHOR_DOMAIN} = r.pattern OR ${AUTHOR_DOMAIN} LIKE '%.' || r.pattern))
+)`
+
+// Read filters from query parameters, ignoring anything empty
+export function parseFeedbackFilters(query: Record<string, string | undefined>): FeedbackFilters {
+  const filters: FeedbackFilters = {}
+  if (query.source_type) filters.source_type = normalizeSourceType(query.source_type)
+  if (query.author) filters.author = query.author
+  if (query.from && !isNaN(Date.parse(query.from))) filters.from = new Date(query.from).toISOString()
+  if (query.to && !isNaN(Date.parse(query.to))) filters.to = new Date(query.to).toISOString()
+  if (query.label) filters.label = query.label
+  if (query.category) filters.category = query.category
+  if (query.severity && /^[1-5]$/.test(query.severity)) filters.severity = Number(query.severity)
+  if (query.min_severity && /^[1-5]$/.test(query.min_severity)) filters.min_severity = Number(query.min_severity)
+  if (query.status) filters.status = normalizeTriageStatus(query.status) || query.status
+  if (query.assignee) filters.assignee = query.assignee
+  if (query.account) filters.account = query.account
+  return filters
+}
+
+// WHERE clause (without the keyword) and its bind values for the feedback table. Columns are
+// unqualified so the clause also works when feedback is joined under an alias.
+export function buildFeedbackWhere(filters: FeedbackFilters): { clause: string, binds: any[] } {
+  const conditions: string[] = []
+  const binds: any[] = []
+
+  if (filters.source_type) {
+    conditions.push('source_type = ?')
+    binds.push(filters.source_type)
+  }
+  if (filters.author) {
+    conditions.push('author = ?')
+    binds.push(filters.author)
+  }
+  if (filters.from) {
+    conditions.push('created_at_timestamp >= unixepoch(?)')
+    binds.push(filters.from)
+  }
+  if (filters.to) {
+    conditions.push('created_at_timestamp <= unixepoch(?)')
+    binds.push(filters.to)
+  }
+  if (filters.label) {
+    conditions.push(`EXISTS (SELECT 1 FROM json_each(metadata, '$.labels') WHERE value = ?)`)
+    binds.push(filters.label)
+  }
+  if (filters.category) {
+    conditions.push('id IN (SELECT e.feedback_id FROM feedback_enrichment e, json_each(e.categories) c WHERE c.value = ?)')
+    binds.push(filters.category)
+  }
+  if (filters.severity) {
+    conditions.push('id IN (SELECT feedback_id FROM feedback_enrichment WHERE severity = ?)')
+    binds.push(filters.severity)
+  }
+  if (filters.min_severity) {
+    conditions.push('id IN (SELECT feedback_id FROM feedback_enrichment WHERE severity >= ?)')
+    binds.push(filters.min_severity)
+  }
+  if (filters.status) {
+    conditions.push(`COALESCE((SELECT status FROM feedback_triage WHERE feedback_id = id), 'new') = ?`)
+    binds.push(filters.status)
+  }
+  if (filters.assignee) {
+    conditions.push('id IN (SELECT feedback_id FROM feedback_triage WHERE assignee = ?)')
+    binds.push(filters.assignee)
+  }
+  if (filters.account) {
+    conditions.push(`EXISTS (SELECT 1 FROM account_rules r WHERE r.account_id = ? AND ${ACCOUNT_RULE_MATCH})`)
+    binds.push(filters.account)
+  }
+
+  return { clause: conditions.length > 0 ? conditions.join(' AND ') : '1 = 1', binds }
+}
+
+// Listing cursors: base64url of [created_at_timestamp, id] for the last item of a page
+export function encodeCursor(timestamp: number, id: string): string {
+  const bytes = new TextEncoder().encode(JSON.stringify([timestamp, id]))
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// null when the cursor wasn't produced by encodeCursor
+export function decodeCursor(cursor: string): [number, string] | null {
+  try {
+    const bytes = Uint8Array.from(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0))
+    const value = JSON.parse(new TextDecoder().decode(bytes))
+    if (Array.isArray(value) && typeof value[0] === 'number' && typeof value[1] === 'string') return [value[0], value[1]]
+  } catch {
+    // not base64 or not JSON
+  }
+  return null
+}
@@ -0,0 +1,107 @@
+import { FeedbackAggregator, FeedbackItem, FEEDBACK_COLUMNS } from './feedback-aggregator'
+import { FreeTierManager, conservativeDB } from './free-tier-optimizations'
+import { anonymizeFeedback } from './pii-redaction'
+import { AuditContext, AuditLog, CRON_AUDIT } from './audit-log'
+
+// `anonymize` keeps old items for the analytics but strips names, addresses and numbers;
+// `purge` deletes them outright
+export type RetentionMode = 'anonymize' | 'purge'
+
+export interface RetentionPolicy {
+  days: number
+  mode: RetentionMode
+}
+
+export interface RetentionResult extends RetentionPolicy {
+  cutoff: string
+  processed: number
+  remaining: boolean
+}
+
+// Applies RETENTION_DAYS / RETENTION_MODE to items older than the cutoff (by created_at)
+export class FeedbackRetention {
+  private feedbackAggregator = new FeedbackAggregator()
+  private auditLog = new AuditLog()
+  private freeTierManager = FreeTierManager.getInstance()
+
+  // null (retention off) unless RETENTION_DAYS is a positive number; RETENTION_MODE defaults to anonymize
+  static policyFromEnv(env: any): RetentionPolicy | null {
+    const days = Number(env.RETENTION_DAYS)
+    if (!Number.isFinite(days) || days <= 0) return null
+    return { days, mode: env.RETENTION_MODE === 'purge' ? 'purge' : 'anonymize' }
+  }
+
+  // Works through conservativeDB.maxResults items per pass until none are due or the D1
+  // write budget runs out (`remaining` is then true and the next run carries on)
+  async apply(policy: RetentionPolicy, env: any, audit: AuditContext = CRON_AUDIT): Promise<RetentionResult> {
+    const cutoff = new Date(Date.now() - policy.days * 24 * 60 * 60 * 1000).toISOString()
+    let processed = 0
+    let remaining = false
+
+    while (true) {
+      if (!this.freeTierManager.canWriteToD1(conservativeDB.maxResults)) {
+        remaining = true
+        break
+      }
+
+      const count = policy.mode === 'purge' ?
+        await this.purgeBatch(cutoff, env, audit) :
+        await this.anonymizeBatch(cutoff, env, audit)
+      processed += count
+      if (count < conservativeDB.maxResults) break
+    }
+
+    if (processed > 0) await this.feedbackAggregator.invalidateCaches(env)
+
+    return { ...policy, cutoff, processed, remaining }
+  }
+
+  // Rewrites items through storeFeedbackBatch so their thread, enrichment and search index
+  // follow, then marks them so they aren't picked up again
+  private async anonymizeBatch(cutoff: string, env: any, audit: AuditContext): Promise<number> {
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT ${FEEDBACK_COLUMNS} FROM feedback
+      WHERE created_at_timestamp < unixepoch(?) AND anonymized_at IS NULL
+      LIMIT ?
+    `).bind(cutoff, conservativeDB.maxResults).all()
+    const items: FeedbackItem[] = (result.results || []).map((row: any) => this.feedbackAggregator.mapRow(row))
+    this.freeTierManager.recordD1RowsRead(items.length)
+    if (items.length === 0) return 0
+
+    await this.feedbackAggregator.storeFeedbackBatch(items.map(item => anonymizeFeedback(item)), env, audit)
+    await env.FEEDBACK_DB.prepare(`
+      UPDATE feedback SET anonymized_at = ? WHERE id IN (SELECT value FROM json_each(?))
+    `).bind(new Date().toISOString(), JSON.stringify(items.map(item => item.id))).run()
+    this.freeTierManager.recordD1RowsWritten(items.length)
+
+    return items.length
+  }
+
+  // Purged items are logged by id only; their content is what the policy asks to forget
+  private async purgeBatch(cutoff: string, env: any, audit: AuditContext): Promise<number> {
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT id FROM feedback WHERE created_at_timestamp < unixepoch(?) LIMIT ?
+    `).bind(cutoff, conservativeDB.maxResults).all()
+    const ids: string[] = (result.results || []).map((row: any) => row.id)
+    this.freeTierManager.recordD1RowsRead(ids.length)
+    if (ids.length === 0) return 0
+
+    const idList = JSON.stringify(ids)
+    await env.FEEDBACK_DB.batch([
+      env.FEEDBACK_DB.prepare('DELETE FROM feedback_messages WHERE feedback_id IN (SELECT value FROM json_each(?))').bind(idList),
+      env.FEEDBACK_DB.prepare('DELETE FROM feedback_enrichment WHERE feedback_id IN (SELECT value FROM json_each(?))').bind(idList),
+      env.FEEDBACK_DB.prepare('DELETE FROM feedback_triage WHERE feedback_id IN (SELECT value FROM json_each(?))').bind(idList),
+      env.FEEDBACK_DB.prepare('DELETE FROM feedback WHERE id IN (SELECT value FROM json_each(?))').bind(idList),
+      ...this.feedbackAggregator.themeRemovalStatements(ids, env),
+      this.auditLog.insertStatement(ids.map(id => ({
+        action: 'delete',
+        entity_type: 'feedback',
+        entity_id: id,
+        details: { retention: 'purge', cutoff }
+      })), audit, env)
+    ])
+    this.freeTierManager.recordD1RowsWritten(ids.length * 2)
+
+    return ids.length
+  }
+}
@@ -0,0 +1,72 @@
+import { FeedbackFilters, buildFeedbackWhere } from './feedback-query'
+import { FreeTierManager, conservativeDB } from './free-tier-optimizations'
+
+export interface SearchResult {
+  id: string
+  source_type: string
+  source_id: string
+  title: string
+  author: string
+  created_at: string
+  // Title and a content excerpt with the matched terms wrapped in the highlight markers
+  title_highlight: string
+  snippet: string
+}
+
+export interface SearchOptions {
+  limit?: number
+  highlight?: [string, string]
+}
+
+// Longest query we pass to FTS5; longer input is cut at this many terms
+const MAX_TERMS = 10
+
+// Turn free text into an FTS5 query: "quoted phrases" stay phrases, every other word becomes a
+// quoted term so operators and punctuation in user input can't break the MATCH syntax.
+// Returns null when nothing searchable is left.
+export function buildSearchQuery(text: string, operator: 'AND' | 'OR' = 'AND'): string | null {
+  const terms: string[] = []
+
+  for (const match of text.matchAll(/"([^"]*)"|[\p{L}\p{N}_]+/gu)) {
+    const words = (match[1] ?? match[0]).match(/[\p{L}\p{N}_]+/gu)
+    if (words) terms.push(`"${words.join(' ')}"`)
+  }
+
+  return terms.length > 0 ? terms.slice(0, MAX_TERMS).join(` ${operator} `) : null
+}
+
+// Keyword search over feedback title and content (the feedback_fts index)
+export class FeedbackSearch {
+  private freeTierManager = FreeTierManager.getInstance()
+
+  // Best matches first (title hits weigh double). Every word must match; when that finds
+  // nothing, items matching any of the words are returned instead.
+  async search(text: string, filters: FeedbackFilters, env: any, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const limit = Math.min(Math.max(options.limit || 20, 1), conservativeDB.maxResults)
+    const [open, close] = options.highlight || ['<mark>', '</mark>']
+
+    for (const operator of ['AND', 'OR'] as const) {
+      const query = buildSearchQuery(text, operator)
+      if (!query) return []
+
+      const { clause, binds } = buildFeedbackWhere(filters)
+      const result = await env.FEEDBACK_DB.prepare(`
+        SELECT
+          f.id, f.source_type, f.source_id, f.title, f.author, f.created_at,
+          highlight(feedback_fts, 0, ?, ?) AS title_highlight,
+          snippet(feedback_fts, 1, ?, ?, '…', 24) AS snippet
+        FROM feedback_fts
+        JOIN feedback f ON f.rowid = feedback_fts.rowid
+        WHERE feedback_fts MATCH ? AND ${clause}
+        ORDER BY bm25(feedback_fts, 2.0, 1.0)
+        LIMIT ?
+      `).bind(open, close, open, close, query, ...binds, limit).all()
+      const rows: SearchResult[] = result.results || []
+      this.freeTierManager.recordD1RowsRead(rows.length)
+
+      if (rows.length > 0 || !query.includes(' AND ')) return rows
+    }
+
+    return []
+  }
+}
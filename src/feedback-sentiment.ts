@@ -0,0 +1,214 @@
+import { FreeTierManager, conservativeAI, conservativeDB } from './free-tier-optimizations'
+
+export type Sentiment = 'positive' | 'negative' | 'neutral'
+
+export interface SentimentScore {
+  label: Sentiment
+  // -1 (negative) to 1 (positive)
+  score: number
+  // 0-1
+  confidence: number
+}
+
+export interface SentimentRunResult {
+  model: string
+  scored: number
+  // Items missing from the model's answers; they keep the lexicon score until re-enriched
+  unscored: number
+  // The AI or D1 budget ran out, or the model failed, with items still pending
+  remaining: boolean
+}
+
+// sentiment_method for scores from the keyword lexicon; model scores record the model instead
+export const LEXICON_METHOD = 'lexicon'
+
+// Mean score over the rows of feedback_enrichment `e`, each weighted by its confidence.
+// NULL when no row has any confidence.
+export const WEIGHTED_SENTIMENT = 'SUM(e.sentiment_score * e.sentiment_confidence) / NULLIF(SUM(e.sentiment_confidence), 0)'
+
+// Scores at least this far from 0 count as positive or negative
+const LABEL_THRESHOLD = 0.25
+
+const POSITIVE_WORDS = [
+  'great', 'excellent', 'love', 'amazing', 'perfect', 'smooth', 'easy', 'awesome', 'helpful',
+  'intuitive', 'reliable', 'impressed', 'thank you', 'thanks', 'works well', 'works great', 'fixed'
+]
+const NEGATIVE_WORDS = [
+  'frustrating', 'slow', 'confusing', 'broken', 'terrible', 'difficult', 'complex', 'missing',
+  'crash', 'crashes', 'crashing', 'unusable', 'unreliable', 'annoying', 'disappointed', 'fails',
+  'failing', 'failed', 'error', 'errors', 'timeout', 'worse', "doesn't work", 'not working'
+]
+
+// Whole words and phrases only, so "fast" isn't found in "breakfast"
+function wordPattern(words: string[]): RegExp {
+  return new RegExp(`\\b(${words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})\\b`, 'g')
+}
+
+const POSITIVE_PATTERN = wordPattern(POSITIVE_WORDS)
+const NEGATIVE_PATTERN = wordPattern(NEGATIVE_WORDS)
+
+// Items per prompt, and how much of each item the model sees
+const SENTIMENT_BATCH_SIZE = 10
+const MAX_ITEM_LENGTH = 400
+// Answer tokens allowed per item: {"i":10,"sentiment":"negative","confidence":0.85},
+const ANSWER_TOKENS_PER_ITEM = 20
+
+const SYSTEM_PROMPT = 'Rate the sentiment of each numbered piece of user feedback about a network monitoring product. ' +
+  'Reply with only a JSON array holding one object per item: {"i": item number, "sentiment": "positive" | "negative" | "neutral", "confidence": 0 to 1}.'
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function sentimentLabel(score: number | null): Sentiment {
+  if (score === null) return 'neutral'
+  if (score >= LABEL_THRESHOLD) return 'positive'
+  if (score <= -LABEL_THRESHOLD) return 'negative'
+  return 'neutral'
+}
+
+// Fallback scorer for lowercased text: distinct positive words against distinct negative ones,
+// damped so one word doesn't read as certainty. Confidence stays low; the model's replaces it.
+export function lexiconSentiment(text: string): SentimentScore {
+  const positive = new Set(text.match(POSITIVE_PATTERN) || []).size
+  const negative = new Set(text.match(NEGATIVE_PATTERN) || []).size
+  const hits = positive + negative
+  const score = round((positive - negative) / (hits + 1))
+
+  return {
+    label: sentimentLabel(score),
+    score,
+    confidence: hits === 0 ? 0.2 : Math.min(0.3 + 0.1 * hits, 0.6)
+  }
+}
+
+// The model's answer for a batch of `count` items, by position (0-based). Entries that aren't
+// well formed are left out rather than guessed.
+export function parseSentimentResponse(response: unknown, count: number): Map<number, SentimentScore> {
+  let answers: unknown = response
+  if (typeof response === 'string') {
+    const json = response.match(/\[[\s\S]*\]/)
+    if (!json) return new Map()
+    try {
+      answers = JSON.parse(json[0])
+    } catch {
+      return new Map()
+    }
+  }
+  if (!Array.isArray(answers)) return new Map()
+
+  const scores = new Map<number, SentimentScore>()
+  for (const answer of answers) {
+    const index = Number(answer?.i) - 1
+    const label = String(answer?.sentiment || '').trim().toLowerCase()
+    const confidence = Number(answer?.confidence)
+    if (!Number.isInteger(index) || index < 0 || index >= count || scores.has(index)) continue
+    if (label !== 'positive' && label !== 'negative' && label !== 'neutral') continue
+    if (!Number.isFinite(confidence) || confidence < 0 || confidence > 1) continue
+
+    const sign = label === 'positive' ? 1 : label === 'negative' ? -1 : 0
+    scores.set(index, { label, score: round(sign * confidence), confidence: round(confidence) })
+  }
+  return scores
+}
+
+// Re-scores items that only have a lexicon score with Workers AI, SENTIMENT_BATCH_SIZE items
+// per call, while the AI budget allows. Whatever is left keeps its lexicon score.
+export class FeedbackSentiment {
+  private freeTierManager = FreeTierManager.getInstance()
+  private model = conservativeAI.getModelForTask('sentiment')
+
+  // Works through conservativeDB.maxResults items per pass until nothing is pending or a budget
+  // runs out; the next run carries on
+  async scorePending(env: any): Promise<SentimentRunResult> {
+    const result: SentimentRunResult = { model: this.model, scored: 0, unscored: 0, remaining: false }
+    if (!env.AI) return result
+
+    while (true) {
+      if (!this.freeTierManager.canWriteToD1(conservativeDB.maxResults)) {
+        result.remaining = true
+        break
+      }
+      const pending = await this.pending(env, conservativeDB.maxResults)
+      if (pending.length === 0) break
+
+      for (let i = 0; i < pending.length; i += SENTIMENT_BATCH_SIZE) {
+        const batch = pending.slice(i, i + SENTIMENT_BATCH_SIZE)
+        const items = batch.map((item, index) => `${index + 1}. ${item.text}`).join('\n')
+        const estimatedTokens = conservativeAI.estimateTokens(SYSTEM_PROMPT + items) + batch.length * ANSWER_TOKENS_PER_ITEM
+        if (!this.freeTierManager.canMakeAIRequest(env, estimatedTokens)) {
+          result.remaining = true
+          return result
+        }
+
+        let scores: Map<number, SentimentScore>
+        try {
+          const aiResponse = await env.AI.run(this.model, {
+            messages: [
+              { role: 'system', content: SYSTEM_PROMPT },
+              { role: 'user', content: items }
+            ],
+            max_tokens: batch.length * ANSWER_TOKENS_PER_ITEM
+          })
+          this.freeTierManager.recordAITokensUsed(estimatedTokens)
+          scores = parseSentimentResponse(aiResponse?.response, batch.length)
+        } catch (error: unknown) {
+          // Left pending for the next run
+          console.error('Sentiment scoring failed:', error instanceof Error ? error.message : String(error))
+          result.remaining = true
+          return result
+        }
+
+        await this.save(env, batch.map((item, index) => ({ id: item.id, score: scores.get(index) })))
+        result.scored += scores.size
+        result.unscored += batch.length - scores.size
+      }
+
+      if (pending.length < conservativeDB.maxResults) break
+    }
+
+    return result
+  }
+
+  // Lexicon-scored items the model hasn't looked at since they were last enriched, newest
+  // first; the text is the redacted copy, never the original
+  private async pending(env: any, limit: number): Promise<{ id: string, text: string }[]> {
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT feedback_id AS id, redacted_title, redacted_content FROM feedback_enrichment
+      WHERE redacted_title IS NOT NULL AND sentiment_method = ?
+        AND (sentiment_scored_at IS NULL OR sentiment_scored_at < enriched_at)
+      ORDER BY enriched_at DESC
+      LIMIT ?
+    `).bind(LEXICON_METHOD, limit).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    return rows.map(row => ({
+      id: row.id,
+      text: `${row.redacted_title}: ${row.redacted_content || ''}`.replace(/\s+/g, ' ').trim().slice(0, MAX_ITEM_LENGTH)
+    }))
+  }
+
+  // Every item in the batch is marked as seen; those the model scored take its score
+  private async save(env: any, results: { id: string, score?: SentimentScore }[]): Promise<void> {
+    const scoredAt = new Date().toISOString()
+    const scored = results.filter(result => result.score).map(({ id, score }) => [id, score!.label, score!.score, score!.confidence])
+
+    await env.FEEDBACK_DB.batch([
+      env.FEEDBACK_DB.prepare(`
+        UPDATE feedback_enrichment SET sentiment_scored_at = ?
+        WHERE feedback_id IN (SELECT value FROM json_each(?))
+      `).bind(scoredAt, JSON.stringify(results.map(result => result.id))),
+      env.FEEDBACK_DB.prepare(`
+        UPDATE feedback_enrichment SET
+          sentiment = json_extract(s.value, '$[1]'),
+          sentiment_score = json_extract(s.value, '$[2]'),
+          sentiment_confidence = json_extract(s.value, '$[3]'),
+          sentiment_method = ?
+        FROM json_each(?) s
+        WHERE feedback_enrichment.feedback_id = json_extract(s.value, '$[0]')
+      `).bind(this.model, JSON.stringify(scored))
+    ])
+    this.freeTierManager.recordD1RowsWritten(results.length)
+  }
+}
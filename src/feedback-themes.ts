@@ -0,0 +1,321 @@
+import {
+  AiBinding,
+  D1VectorStore,
+  EmbeddingProvider,
+  HashingEmbeddings,
+  StoredVector,
+  VectorStore,
+  WorkersAIEmbeddings
+} from './embeddings'
+import { tokenize } from './feedback-clustering'
+import { FreeTierManager, conservativeAI, conservativeDB } from './free-tier-optimizations'
+import { sha256Hex } from './crypto-utils'
+
+// Redacted title, and title plus body
+interface ThemeText {
+  title: string
+  text: string
+}
+
+export interface ThemeItem {
+  id: string
+  // Redacted
+  title: string
+}
+
+export interface FeedbackTheme {
+  id: string
+  // Its most distinctive terms: "snmp / traps / polling"
+  label: string
+  terms: string[]
+  size: number
+  // The items closest to the theme's centre
+  representatives: ThemeItem[]
+  item_ids: string[]
+  model: string
+  built_at: string
+}
+
+export interface EmbeddingRunResult {
+  model: string
+  embedded: number
+  unchanged: number
+  // More items wait for the AI or D1 budget
+  remaining: boolean
+}
+
+export interface ThemeRebuildResult {
+  model: string
+  items: number
+  themes: number
+}
+
+// KV record per model of the last regroup, and how many vectors were written since
+interface ThemeBuildState {
+  built_at: string
+  embedded_since: number
+}
+
+// Texts per Workers AI call
+const EMBEDDING_BATCH_SIZE = 20
+const MAX_THEMES = 8
+// Themes smaller than this are left out as noise
+const MIN_THEME_SIZE = 2
+const LABEL_TERMS = 3
+const REPRESENTATIVES = 3
+const MAX_ITERATIONS = 25
+// The cron regroups once this many vectors were written since the last time, or once a day
+// when there were any
+const REBUILD_AFTER_VECTORS = 25
+const REBUILD_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+  return sum
+}
+
+function centroid(vectors: number[][]): number[] {
+  const sum = new Array(vectors[0].length).fill(0)
+  vectors.forEach(vector => vector.forEach((value, i) => { sum[i] += value }))
+  const norm = Math.sqrt(dot(sum, sum))
+  return norm > 0 ? sum.map(value => value / norm) : sum
+}
+
+// Spherical k-means over unit vectors. Seeds are picked deterministically (the most central
+// item, then whichever is least similar to the seeds so far), so the same vectors always give
+// the same themes. Returns groups of indexes into `vectors`, each with its centroid.
+export function clusterVectors(vectors: number[][], k: number): Array<{ members: number[], centroid: number[] }> {
+  if (vectors.length === 0) return []
+  k = Math.min(k, vectors.length)
+
+  const mean = centroid(vectors)
+  const seeds = [vectors.reduce((best, vector, i) => dot(vector, mean) > dot(vectors[best], mean) ? i : best, 0)]
+  const nearestSeed = vectors.map(vector => dot(vector, vectors[seeds[0]]))
+  while (seeds.length < k) {
+    const next = nearestSeed.reduce((best, similarity, i) => similarity < nearestSeed[best] ? i : best, 0)
+    if (seeds.includes(next)) break
+    seeds.push(next)
+    vectors.forEach((vector, i) => { nearestSeed[i] = Math.max(nearestSeed[i], dot(vector, vectors[next])) })
+  }
+
+  let centroids = seeds.map(seed => vectors[seed])
+  let assignments: number[] = []
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = vectors.map(vector => centroids.reduce((best, c, i) => dot(vector, c) > dot(vector, centroids[best]) ? i : best, 0))
+    if (next.every((assignment, i) => assignment === assignments[i])) break
+    assignments = next
+    centroids = centroids.map((c, i) => {
+      const members = vectors.filter((_, index) => assignments[index] === i)
+      return members.length > 0 ? centroid(members) : c
+    })
+  }
+
+  return centroids
+    .map((c, i) => ({ members: assignments.flatMap((assignment, index) => assignment === i ? [index] : []), centroid: c }))
+    .filter(group => group.members.length > 0)
+}
+
+// Terms frequent in the theme and rare elsewhere (a title counts twice as much as the body),
+// shown as the word most often written for each
+export function themeTerms(themeTexts: ThemeText[], documentFrequency: Map<string, number>, totalDocuments: number): string[] {
+  const themeFrequency = new Map<string, number>()
+  const surfaceForms = new Map<string, Map<string, number>>()
+
+  for (const { title, text } of themeTexts) {
+    const weights = new Map<string, number>()
+    for (const [part, weight] of [[text, 1], [title, 2]] as const) {
+      for (const word of part.toLowerCase().split(/[^a-z0-9]+/)) {
+        const [stem] = tokenize(word)
+        if (!stem) continue
+        const forms = surfaceForms.get(stem) || new Map<string, number>()
+        forms.set(word, (forms.get(word) || 0) + 1)
+        surfaceForms.set(stem, forms)
+        weights.set(stem, Math.max(weights.get(stem) || 0, weight))
+      }
+    }
+    weights.forEach((weight, stem) => themeFrequency.set(stem, (themeFrequency.get(stem) || 0) + weight))
+  }
+
+  // Terms need at least two items behind them
+  const minimum = themeTexts.length > 1 ? 2 : 1
+  return [...themeFrequency.entries()]
+    .filter(([, count]) => count >= minimum)
+    .map(([stem, count]) => ({ stem, score: (count / themeTexts.length) * Math.log(totalDocuments / (documentFrequency.get(stem) || 1)) }))
+    .filter(term => term.score > 0)
+    .sort((a, b) => b.score - a.score || a.stem.localeCompare(b.stem))
+    .slice(0, LABEL_TERMS)
+    .map(({ stem }) => [...surfaceForms.get(stem)!.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0])
+}
+
+// Embeds each item's redacted text (Workers AI, or the local stand-in without an AI binding)
+// and groups the vectors into themes, stored in feedback_themes for the insights and /api/themes
+export class FeedbackThemes {
+  private freeTierManager = FreeTierManager.getInstance()
+
+  // Both default per request from env; pass stand-ins to run without Workers AI or D1
+  constructor(private options: { embeddings?: EmbeddingProvider, vectorStore?: VectorStore } = {}) {}
+
+  // Cron: embed what's new, and regroup when it was never done (for this model), after
+  // REBUILD_AFTER_VECTORS new vectors, or a day after the last regroup if any came in. Deleted
+  // and purged items are taken out of the stored themes as they go.
+  async refresh(env: any): Promise<{ embedding: EmbeddingRunResult, themes: ThemeRebuildResult | null }> {
+    const embedding = await this.embedPending(env)
+    const key = this.stateKey(embedding.model)
+    const stored = await env.CACHE.get(key)
+    const state: ThemeBuildState | null = stored ? JSON.parse(stored) : null
+
+    if (state && embedding.embedded > 0) {
+      state.embedded_since += embedding.embedded
+      await env.CACHE.put(key, JSON.stringify(state))
+    }
+
+    const due = !state ||
+      state.embedded_since >= REBUILD_AFTER_VECTORS ||
+      (state.embedded_since > 0 && Date.now() - Date.parse(state.built_at) >= REBUILD_INTERVAL_MS)
+    const themes = due ? await this.rebuild(env) : null
+    return { embedding, themes }
+  }
+
+  // Works through conservativeDB.maxResults items per pass until nothing is pending or the
+  // AI or D1 budget runs out; the next run carries on
+  async embedPending(env: any): Promise<EmbeddingRunResult> {
+    const embeddings = this.embeddings(env)
+    const store = this.vectorStore(env)
+    const result: EmbeddingRunResult = { model: embeddings.model, embedded: 0, unchanged: 0, remaining: false }
+
+    while (true) {
+      if (!this.freeTierManager.canWriteToD1(conservativeDB.maxResults)) {
+        result.remaining = true
+        break
+      }
+      const pending = await store.pending(embeddings.model, conservativeDB.maxResults)
+      if (pending.length === 0) break
+
+      const hashed = await Promise.all(pending.map(async input => ({ ...input, text_hash: (await sha256Hex(input.text)).slice(0, 16) })))
+      const unchanged = hashed.filter(input => input.text_hash === input.stored_hash)
+      const changed = hashed.filter(input => input.text_hash !== input.stored_hash)
+      await store.touch(embeddings.model, unchanged.map(input => input.id))
+      result.unchanged += unchanged.length
+
+      for (let i = 0; i < changed.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = changed.slice(i, i + EMBEDDING_BATCH_SIZE)
+        const estimatedTokens = conservativeAI.estimateTokens(batch.map(input => input.text).join(' '))
+        if (embeddings.metered && !this.freeTierManager.canMakeAIRequest(env, estimatedTokens)) {
+          result.remaining = true
+          return result
+        }
+
+        const vectors = await embeddings.embed(batch.map(input => input.text))
+        if (embeddings.metered) this.freeTierManager.recordAITokensUsed(estimatedTokens)
+        await store.upsert(embeddings.model, batch.map((input, index) => ({ id: input.id, text_hash: input.text_hash, vector: vectors[index] })))
+        result.embedded += batch.length
+      }
+
+      if (pending.length < conservativeDB.maxResults) break
+    }
+
+    return result
+  }
+
+  // Regroups every vector of the current model and replaces its themes
+  async rebuild(env: any): Promise<ThemeRebuildResult> {
+    const model = this.embeddings(env).model
+    const store = this.vectorStore(env)
+    // Every vector, and the text of each for the labels
+    const total = await store.count(model)
+    if (!this.freeTierManager.canReadFromD1(total * 2)) {
+      console.log('Skipping theme rebuild: D1 read budget exhausted')
+      return { model, items: total, themes: 0 }
+    }
+
+    const vectors = await store.all(model)
+    const groups = clusterVectors(vectors.map(vector => vector.vector), Math.min(MAX_THEMES, Math.max(1, Math.round(Math.sqrt(vectors.length / 2)))))
+      .filter(group => group.members.length >= MIN_THEME_SIZE)
+
+    const texts = await this.loadTexts(vectors, env)
+    const documentFrequency = new Map<string, number>()
+    texts.forEach(text => new Set(tokenize(text.text)).forEach(stem => documentFrequency.set(stem, (documentFrequency.get(stem) || 0) + 1)))
+
+    const builtAt = new Date().toISOString()
+    const themes: FeedbackTheme[] = groups.map(group => {
+      const members: StoredVector[] = group.members.map(index => vectors[index])
+      const ranked = [...members].sort((a, b) => dot(b.vector, group.centroid) - dot(a.vector, group.centroid) || a.id.localeCompare(b.id))
+      const terms = themeTerms(members.map(member => texts.get(member.id) || { title: '', text: '' }), documentFrequency, vectors.length)
+
+      return {
+        // Named after its most central item, so it keeps its id while that item stays in it
+        id: `theme_${ranked[0].id}`,
+        label: terms.length > 0 ? terms.join(' / ') : texts.get(ranked[0].id)?.title || ranked[0].id,
+        terms,
+        size: members.length,
+        representatives: ranked.slice(0, REPRESENTATIVES).map(member => ({ id: member.id, title: texts.get(member.id)?.title || '' })),
+        item_ids: ranked.map(member => member.id),
+        model,
+        built_at: builtAt
+      }
+    }).sort((a, b) => b.size - a.size || a.id.localeCompare(b.id))
+
+    if (!this.freeTierManager.canWriteToD1(themes.length + 1)) {
+      console.log('Skipping theme rebuild: D1 write budget exhausted')
+      return { model, items: vectors.length, themes: 0 }
+    }
+
+    await env.FEEDBACK_DB.batch([
+      env.FEEDBACK_DB.prepare('DELETE FROM feedback_themes WHERE model = ?').bind(model),
+      ...themes.map(theme => env.FEEDBACK_DB.prepare(`
+        INSERT INTO feedback_themes (id, model, label, terms, size, representatives, item_ids, built_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(theme.id, model, theme.label, JSON.stringify(theme.terms), theme.size,
+              JSON.stringify(theme.representatives), JSON.stringify(theme.item_ids), builtAt))
+    ])
+    this.freeTierManager.recordD1RowsWritten(themes.length + 1)
+    await env.CACHE.put(this.stateKey(model), JSON.stringify({ built_at: builtAt, embedded_since: 0 }))
+
+    return { model, items: vectors.length, themes: themes.length }
+  }
+
+  // The current model's themes, largest first
+  async getThemes(env: any): Promise<FeedbackTheme[]> {
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT id, model, label, terms, size, representatives, item_ids, built_at
+      FROM feedback_themes WHERE model = ?
+      ORDER BY size DESC, id
+    `).bind(this.embeddings(env).model).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    return rows.map(row => ({
+      ...row,
+      terms: JSON.parse(row.terms),
+      representatives: JSON.parse(row.representatives),
+      item_ids: JSON.parse(row.item_ids)
+    }))
+  }
+
+  private embeddings(env: any): EmbeddingProvider {
+    if (this.options.embeddings) return this.options.embeddings
+    return env.AI ? new WorkersAIEmbeddings(env.AI as AiBinding) : new HashingEmbeddings()
+  }
+
+  private stateKey(model: string): string {
+    return `themes:state:${model}`
+  }
+
+  private vectorStore(env: any): VectorStore {
+    return this.options.vectorStore || new D1VectorStore(env.FEEDBACK_DB)
+  }
+
+  // Redacted title and text per item, for labels and representatives
+  private async loadTexts(vectors: StoredVector[], env: any): Promise<Map<string, ThemeText>> {
+    if (vectors.length === 0) return new Map()
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT feedback_id AS id, redacted_title, redacted_content FROM feedback_enrichment
+      WHERE feedback_id IN (SELECT value FROM json_each(?))
+    `).bind(JSON.stringify(vectors.map(vector => vector.id))).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    return new Map(rows.map(row => [row.id, { title: row.redacted_title || '', text: `${row.redacted_title || ''}\n${row.redacted_content || ''}` }]))
+  }
+}
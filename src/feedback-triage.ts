@@ -0,0 +1,135 @@
+import { FreeTierManager } from './free-tier-optimizations'
+import { AuditContext, AuditLog, diffRecords } from './audit-log'
+
+export type TriageStatus = 'new' | 'acknowledged' | 'in-progress' | 'resolved' | 'wont-fix'
+
+export interface TriageState {
+  status: TriageStatus
+  assignee: string | null
+  resolution: string | null
+  updated_at: string | null
+  updated_by: string | null
+}
+
+export interface TriageChange {
+  status?: string
+  assignee?: string | null
+  resolution?: string | null
+}
+
+export interface TriageResult {
+  status: 'updated' | 'not_found' | 'invalid' | 'conflict'
+  triage?: TriageState
+  reason?: string
+}
+
+// Forward moves may skip steps; closed items can only be reopened (back to acknowledged)
+export const TRIAGE_TRANSITIONS: Record<TriageStatus, TriageStatus[]> = {
+  'new': ['acknowledged', 'in-progress', 'resolved', 'wont-fix'],
+  'acknowledged': ['in-progress', 'resolved', 'wont-fix'],
+  'in-progress': ['acknowledged', 'resolved', 'wont-fix'],
+  'resolved': ['acknowledged'],
+  'wont-fix': ['acknowledged']
+}
+
+// Closed items no longer count towards the open-issue views (critical issues, priority matrix)
+export const CLOSED_STATUSES: TriageStatus[] = ['resolved', 'wont-fix']
+
+export const TRIAGE_STATUS_LABELS: Record<TriageStatus, string> = {
+  'new': 'New',
+  'acknowledged': 'Acknowledged',
+  'in-progress': 'In progress',
+  'resolved': 'Resolved',
+  'wont-fix': "Won't fix"
+}
+
+const MAX_RESOLUTION_LENGTH = 2000
+
+// "won't-fix", "Won't Fix", "in progress" -> canonical status, or null if unknown
+export function normalizeTriageStatus(value: string): TriageStatus | null {
+  const status = value.trim().toLowerCase().replace(/'/g, '').replace(/[\s_]+/g, '-')
+  return Object.keys(TRIAGE_TRANSITIONS).includes(status) ? status as TriageStatus : null
+}
+
+// Reads and changes the triage state in feedback_triage (no row = `new`). Callers are
+// responsible for cache invalidation, since closing an item changes the insights.
+export class FeedbackTriage {
+  private freeTierManager = FreeTierManager.getInstance()
+  private auditLog = new AuditLog()
+
+  async getTriage(id: string, env: any): Promise<TriageState | null> {
+    const row = await env.FEEDBACK_DB.prepare(`
+      SELECT t.status, t.assignee, t.resolution, t.updated_at, t.updated_by
+      FROM feedback f
+      LEFT JOIN feedback_triage t ON t.feedback_id = f.id
+      WHERE f.id = ?
+    `).bind(id).first()
+    if (!row) return null
+
+    return {
+      status: row.status || 'new',
+      assignee: row.assignee ?? null,
+      resolution: row.resolution ?? null,
+      updated_at: row.updated_at ?? null,
+      updated_by: row.updated_by ?? null
+    }
+  }
+
+  // The audit actor (`slack:<user id>`, `api-key:<fingerprint>`) is recorded as updated_by
+  async update(id: string, change: TriageChange, audit: AuditContext, env: any): Promise<TriageResult> {
+    const current = await this.getTriage(id, env)
+    if (!current) return { status: 'not_found', reason: 'Feedback not found' }
+
+    const next: TriageState = { ...current }
+
+    if (change.status !== undefined) {
+      const status = typeof change.status === 'string' ? normalizeTriageStatus(change.status) : null
+      if (!status) {
+        return { status: 'invalid', reason: `status must be one of ${Object.keys(TRIAGE_TRANSITIONS).join(', ')}` }
+      }
+      if (status !== current.status && !TRIAGE_TRANSITIONS[current.status].includes(status)) {
+        return { status: 'conflict', reason: `Cannot move from ${current.status} to ${status}` }
+      }
+      next.status = status
+    }
+    if (change.assignee !== undefined) {
+      if (change.assignee !== null && typeof change.assignee !== 'string') {
+        return { status: 'invalid', reason: 'assignee must be a string or null' }
+      }
+      next.assignee = change.assignee?.trim() || null
+    }
+    if (change.resolution !== undefined) {
+      if (change.resolution !== null && typeof change.resolution !== 'string') {
+        return { status: 'invalid', reason: 'resolution must be a string or null' }
+      }
+      if ((change.resolution || '').length > MAX_RESOLUTION_LENGTH) {
+        return { status: 'invalid', reason: `resolution must be at most ${MAX_RESOLUTION_LENGTH} characters` }
+      }
+      next.resolution = change.resolution?.trim() || null
+    }
+
+    const changes = diffRecords(
+      { status: current.status, assignee: current.assignee, resolution: current.resolution },
+      { status: next.status, assignee: next.assignee, resolution: next.resolution }
+    )
+    next.updated_at = new Date().toISOString()
+    next.updated_by = audit.actor
+
+    await env.FEEDBACK_DB.batch([
+      env.FEEDBACK_DB.prepare(`
+        INSERT INTO feedback_triage (feedback_id, status, assignee, resolution, updated_at, updated_by)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (feedback_id) DO UPDATE SET
+          status = excluded.status,
+          assignee = excluded.assignee,
+          resolution = excluded.resolution,
+          updated_at = excluded.updated_at,
+          updated_by = excluded.updated_by
+      `).bind(id, next.status, next.assignee, next.resolution, next.updated_at, next.updated_by),
+      this.auditLog.insertStatement([{ action: 'update', entity_type: 'triage', entity_id: id, changes }], audit, env)
+    ])
+    this.freeTierManager.recordD1RowsWritten(2)
+
+    return { status: 'updated', triage: next }
+  }
+}
@@ -0,0 +1,137 @@
+import type { FeedbackItem } from './feedback-aggregator'
+import { conservativeDB } from './free-tier-optimizations'
+import { FEEDBACK_SOURCE_TYPES, normalizeSourceType } from './source-normalizers'
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+export interface ValidationResult {
+  items: FeedbackItem[]
+  errors: FieldError[]
+}
+
+type FieldRule = (value: any) => string | null
+
+const isPlainObject = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isString: FieldRule = value => typeof value === 'string' ? null : 'must be a string'
+const isNullableString: FieldRule = value => value === null || typeof value === 'string' ? null : 'must be a string or null'
+const isStringArray: FieldRule = value =>
+  Array.isArray(value) && value.every(v => typeof v === 'string') ? null : 'must be an array of strings'
+const isObject: FieldRule = value => isPlainObject(value) ? null : 'must be an object'
+const isCount: FieldRule = value => Number.isInteger(value) && value >= 0 ? null : 'must be a non-negative integer'
+const isRating: FieldRule = value =>
+  typeof value === 'number' && value >= 1 && value <= 5 ? null : 'must be a number between 1 and 5'
+const isThread: FieldRule = value => {
+  if (!Array.isArray(value)) return 'must be an array of { author, content, created_at } objects'
+  const bad = value.findIndex(entry =>
+    !isPlainObject(entry) || typeof entry.author !== 'string' || typeof entry.content !== 'string' ||
+    (entry.created_at !== undefined && isNaN(Date.parse(entry.created_at)))
+  )
+  return bad === -1 ? null : `entry ${bad} must have string author and content and an ISO created_at`
+}
+
+// Metadata fields the analytics read, typed after the shapes in data/*.json.
+// Unknown keys are passed through untouched.
+const METADATA_RULES: Record<string, FieldRule> = {
+  labels: isStringArray,
+  tags: isStringArray,
+  components: isStringArray,
+  attachments: isStringArray,
+  cc: isStringArray,
+  comments: isThread,
+  replies: isThread,
+  comments_count: isCount,
+  rating: isRating,
+  state: isString,
+  status: isString,
+  priority: isString,
+  severity: isString,
+  category: isString,
+  channel: isString,
+  assignee: isNullableString,
+  system_info: isObject,
+  browser_info: isObject,
+  form_fields: isObject
+}
+
+export function validateFeedbackItem(input: any, path: string = ''): { item?: FeedbackItem, errors: FieldError[] } {
+  const errors: FieldError[] = []
+  const field = (name: string) => path ? `${path}.${name}` : name
+
+  if (!isPlainObject(input)) {
+    return { errors: [{ field: path || 'body', message: 'must be a JSON object' }] }
+  }
+
+  for (const name of ['source_type', 'source_id', 'title', 'content', 'author']) {
+    if (typeof input[name] !== 'string' || input[name].trim() === '') {
+      errors.push({ field: field(name), message: 'is required and must be a non-empty string' })
+    }
+  }
+
+  const sourceType = typeof input.source_type === 'string' ? normalizeSourceType(input.source_type) : ''
+  if (sourceType && !FEEDBACK_SOURCE_TYPES.includes(sourceType)) {
+    errors.push({ field: field('source_type'), message: `must be one of: ${FEEDBACK_SOURCE_TYPES.join(', ')}` })
+  }
+
+  if (input.id !== undefined && (typeof input.id !== 'string' || input.id.trim() === '')) {
+    errors.push({ field: field('id'), message: 'must be a non-empty string when provided' })
+  }
+
+  if (input.created_at !== undefined && (typeof input.created_at !== 'string' || isNaN(Date.parse(input.created_at)))) {
+    errors.push({ field: field('created_at'), message: 'must be an ISO 8601 timestamp' })
+  }
+
+  const metadata = input.metadata ?? {}
+  if (!isPlainObject(metadata)) {
+    errors.push({ field: field('metadata'), message: 'must be an object' })
+  } else {
+    for (const [key, rule] of Object.entries(METADATA_RULES)) {
+      if (metadata[key] === undefined) continue
+      const message = rule(metadata[key])
+      if (message) errors.push({ field: field(`metadata.${key}`), message })
+    }
+  }
+
+  if (errors.length > 0) return { errors }
+
+  return {
+    item: {
+      id: input.id || `${sourceType}_${crypto.randomUUID()}`,
+      source_type: sourceType,
+      source_id: input.source_id,
+      title: input.title.trim(),
+      content: input.content,
+      author: input.author,
+      created_at: input.created_at ? new Date(input.created_at).toISOString() : new Date().toISOString(),
+      metadata
+    },
+    errors
+  }
+}
+
+// Accepts a single item, a bare array, or `{ items: [...] }`
+export function validateFeedbackPayload(body: any): ValidationResult {
+  const isBatch = Array.isArray(body) || (isPlainObject(body) && Array.isArray(body.items))
+  const inputs: any[] = isBatch ? (Array.isArray(body) ? body : body.items) : [body]
+
+  if (inputs.length === 0) {
+    return { items: [], errors: [{ field: 'items', message: 'must contain at least one item' }] }
+  }
+  if (inputs.length > conservativeDB.maxResults) {
+    return { items: [], errors: [{ field: 'items', message: `must contain at most ${conservativeDB.maxResults} items` }] }
+  }
+
+  const items: FeedbackItem[] = []
+  const errors: FieldError[] = []
+
+  inputs.forEach((input, index) => {
+    const result = validateFeedbackItem(input, isBatch ? `items[${index}]` : '')
+    if (result.item) items.push(result.item)
+    errors.push(...result.errors)
+  })
+
+  return { items, errors }
+}
@@ -0,0 +1,36 @@
+// Loads the per-source exports in data/ through the same normalizers real connectors use
+
+import type { FeedbackItem } from './feedback-aggregator'
+import { normalizeRecord } from './source-normalizers'
+import githubIssues from '../data/github-issues.json'
+import jiraIssues from '../data/jira-issues.json'
+import slackMessages from '../data/slack-messages.json'
+import teamsMessages from '../data/teams-messages.json'
+import emails from '../data/emails.json'
+import bugReports from '../data/bug-reports.json'
+import dashboardForms from '../data/dashboard-forms.json'
+
+const FIXTURES: Record<string, any[]> = {
+  'github-issues': githubIssues,
+  'jira-issues': jiraIssues,
+  'slack-messages': slackMessages,
+  'teams-messages': teamsMessages,
+  'emails': emails,
+  'bug-reports': bugReports,
+  'dashboard-forms': dashboardForms
+}
+
+export const FIXTURE_NAMES = Object.keys(FIXTURES)
+
+export function loadFixtureFeedback(names: string[] = FIXTURE_NAMES): FeedbackItem[] {
+  const items: FeedbackItem[] = []
+
+  for (const name of names) {
+    const records = FIXTURES[name]
+    if (!records) throw new Error(`Unknown fixture: ${name}`)
+
+    records.forEach(record => items.push(normalizeRecord(record)))
+  }
+
+  return items.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+}
@@ -0,0 +1,85 @@
+import { FORM_TYPES, FORM_VERSION, HONEYPOT_FIELD } from './feedback-form'
+
+const FORM_TYPE_LABELS: Record<string, string> = {
+  ui_feedback: 'General feedback',
+  feature_feedback: 'Feedback on a feature',
+  bug_report: 'Something is broken',
+  feature_request: 'Feature request',
+  performance_issue: 'Performance problem'
+}
+
+// Self-contained script for the product dashboard:
+//   <script src="https://<worker>/forms/widget.js" data-category="devices" async></script>
+// Adds a floating "Feedback" button that posts to /api/forms/submit on the same worker.
+export function renderFormWidget(endpoint: string): string {
+  const options = FORM_TYPES.map(type => `<option value="${type}">${FORM_TYPE_LABELS[type] || type}</option>`).join('')
+
+  return `(function () {
+  if (window.__plexFeedbackWidget) return
+  window.__plexFeedbackWidget = true
+
+  var script = document.currentScript
+  var category = script && script.getAttribute('data-category')
+  var endpoint = ${JSON.stringify(endpoint)}
+
+  var button = document.createElement('button')
+  button.type = 'button'
+  button.textContent = 'Feedback'
+  button.style.cssText = 'position:fixed;right:20px;bottom:20px;z-index:2147483000;padding:10px 16px;border:0;border-radius:20px;background:#2563eb;color:#fff;font:600 14px system-ui,sans-serif;cursor:pointer;box-shadow:0 2px 8px rgba(0,0,0,.2)'
+
+  var panel = document.createElement('form')
+  panel.style.cssText = 'position:fixed;right:20px;bottom:70px;z-index:2147483000;width:320px;display:none;flex-direction:column;gap:8px;padding:16px;border-radius:8px;background:#fff;color:#111;font:14px system-ui,sans-serif;box-shadow:0 4px 16px rgba(0,0,0,.25)'
+  panel.innerHTML =
+    '<strong>Send us feedback</strong>' +
+    '<select name="form_type">${options}</select>' +
+    '<label>How would you rate this page? <select name="rating"><option value="">-</option><option>5</option><option>4</option><option>3</option><option>2</option><option>1</option></select></label>' +
+    '<input name="title" placeholder="Summary (optional)" maxlength="120">' +
+    '<textarea name="content" rows="5" placeholder="What happened? What did you expect?" required></textarea>' +
+    '<input name="name" placeholder="Name (optional)">' +
+    '<input name="email" type="email" placeholder="Email (optional)">' +
+    '<input name="${HONEYPOT_FIELD}" tabindex="-1" autocomplete="off" aria-hidden="true" style="position:absolute;left:-10000px">' +
+    '<button type="submit" style="padding:8px;border:0;border-radius:4px;background:#2563eb;color:#fff;cursor:pointer">Send</button>' +
+    '<small data-status></small>'
+
+  var status = panel.querySelector('[data-status]')
+
+  button.addEventListener('click', function () {
+    panel.style.display = panel.style.display === 'none' ? 'flex' : 'none'
+  })
+
+  panel.addEventListener('submit', function (event) {
+    event.preventDefault()
+    var data = new FormData(panel)
+    var payload = {
+      form_type: data.get('form_type'),
+      form_version: ${JSON.stringify(FORM_VERSION)},
+      title: data.get('title'),
+      content: data.get('content'),
+      name: data.get('name'),
+      email: data.get('email'),
+      url: location.pathname,
+      form_fields: { additional_comments: data.get('content') }
+    }
+    payload[${JSON.stringify(HONEYPOT_FIELD)}] = data.get(${JSON.stringify(HONEYPOT_FIELD)})
+    if (data.get('rating')) {
+      payload.rating = Number(data.get('rating'))
+      payload.form_fields.overall_satisfaction = data.get('rating')
+    }
+    if (category) payload.category = category
+
+    status.textContent = 'Sending...'
+    fetch(endpoint, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(payload) })
+      .then(function (response) {
+        if (response.status === 429) throw new Error('Too many submissions, please try again later.')
+        if (!response.ok) throw new Error('Could not send feedback.')
+        panel.reset()
+        status.textContent = 'Thanks! Your feedback was sent.'
+      })
+      .catch(function (error) { status.textContent = error.message })
+  })
+
+  document.body.appendChild(button)
+  document.body.appendChild(panel)
+})()
+`
+}
@@ -95,6 +95,27 @@ export class FreeTierManager {
     return (currentUsage + estimatedRows) < (CLOUDFLARE_LIMITS.D1_ROWS_WRITTEN_MONTHLY - CLOUDFLARE_LIMITS.D1_RESERVED_WRITES)
   }
 
+  // Record D1 usage so the checks above reflect what this isolate has done
+  recordD1RowsRead(rows: number): void {
+    this.incrementMonthly('d1:reads:used', rows)
+  }
+
+  recordD1RowsWritten(rows: number): void {
+    this.incrementMonthly('d1:writes:used', rows)
+  }
+
+  private incrementMonthly(key: string, amount: number): void {
+    const now = Date.now()
+    const monthStart = new Date(now - (now % (30 * 24 * 60 * 60 * 1000))).getTime()
+
+    const current = this.usageCache.get(key)
+    if (!current || current.resetTime !== monthStart) {
+      this.usageCache.set(key, { count: amount, resetTime: monthStart })
+    } else {
+      current.count += amount
+    }
+  }
+
   // Check if we can read from KV
   canReadFromKV(): boolean {
     const key = 'kv:reads:used'
@@ -151,6 +172,7 @@ export const conservativeAI = {
   getModelForTask: (task: string) => {
     if (task === 'sentiment') return '@cf/meta/llama-3.1-8b-instruct'
     if (task === 'summary') return '@cf/meta/llama-3.1-8b-instruct'
+    if (task === 'embedding') return '@cf/baai/bge-small-en-v1.5' // 384 dimensions
     return '@cf/meta/llama-3.1-8b-instruct' // Default to 8B model for free tier
   },
 
@@ -194,11 +216,11 @@ export const conservativeCache = {
   insightsTTL: 600, // 10 minutes
   visualizationTTL: 600, // 10 minutes
 
-  // Cache keys follow a pattern
+  // Cache keys follow a pattern (bump the version suffix to force a refresh)
   keyPatterns: {
-    summary: 'feedback:summary',
-    insights: 'feedback:insights',
-    visualization: 'network:visualization',
+    summary: 'feedback:summary:v2',
+    insights: 'feedback:insights:v5',
+    visualization: 'network:visualization:v2',
     usage: 'usage:stats'
   }
 }
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { FeedbackAggregator, FeedbackItem } from './feedback-aggregator'
+import { normalizeRecord, normalizeThread } from './source-normalizers'
+import { hmacSha256Hex, timingSafeEqual } from './crypto-utils'
+import type { AuditContext } from './audit-log'
+
+// How changes from GitHub webhooks appear in the audit log
+const AUDIT: AuditContext = { actor: 'webhook:github', route: 'POST /webhooks/github' }
+
+export interface WebhookResult {
+  status: 'created' | 'updated' | 'deleted' | 'ignored'
+  id?: string
+  reason?: string
+}
+
+// Receives GitHub `issues`, `issue_comment` and `pull_request` webhooks and keeps
+// one feedback row per issue/PR, shaped like data/github-issues.json
+export class GitHubConnector {
+  private feedbackAggregator = new FeedbackAggregator()
+
+  async verifySignature(rawBody: string, signature: string | undefined, secret: string): Promise<boolean> {
+    if (!signature || !secret || !signature.startsWith('sha256=')) return false
+
+    const expected = `sha256=${await hmacSha256Hex(secret, rawBody)}`
+    return timingSafeEqual(expected, signature)
+  }
+
+  async handleEvent(eventName: string, payload: any, env: any): Promise<WebhookResult> {
+    switch (eventName) {
+      case 'issues':
+        return this.handleIssueEvent(payload.action, payload.issue, payload.repository, env)
+      case 'pull_request':
+        return this.handleIssueEvent(payload.action, payload.pull_request, payload.repository, env, true)
+      case 'issue_comment':
+        return this.handleCommentEvent(payload, env)
+      default:
+        return { status: 'ignored', reason: `Unsupported event: ${eventName}` }
+    }
+  }
+
+  private async handleIssueEvent(action: string, issue: any, repository: any, env: any, isPullRequest: boolean = false): Promise<WebhookResult> {
+    if (!issue) return { status: 'ignored', reason: 'Payload has no issue or pull request' }
+
+    const existing = await this.findExisting(issue, repository, env, isPullRequest)
+
+    if (action === 'deleted') {
+      if (!existing) return { status: 'ignored', reason: 'Issue was never ingested' }
+      await this.feedbackAggregator.deleteFeedback(existing.id, env, AUDIT)
+      return { status: 'deleted', id: existing.id }
+    }
+
+    const item = this.toFeedbackItem(issue, repository, isPullRequest)
+    if (existing) {
+      // Keep our id and the comment history we've collected; everything else is upstream's latest view
+      item.id = existing.id
+      item.metadata = { ...existing.metadata, ...item.metadata, comments: existing.metadata.comments || [] }
+    }
+
+    await this.feedbackAggregator.processFeedbackDirectly([item], env, AUDIT)
+    return { status: existing ? 'updated' : 'created', id: item.id }
+  }
+
+  private async handleCommentEvent(payload: any, env: any): Promise<WebhookResult> {
+    const { action, issue, comment, repository } = payload
+    if (!issue || !comment) return { status: 'ignored', reason: 'Payload has no issue or comment' }
+
+    const isPullRequest = Boolean(issue.pull_request)
+    const existing = await this.findExisting(issue, repository, env, isPullRequest)
+    const item = this.toFeedbackItem(issue, repository, isPullRequest)
+    if (existing) {
+      item.id = existing.id
+      item.metadata = { ...existing.metadata, ...item.metadata }
+    }
+
+    const comments = normalizeThread(existing?.metadata.comments)
+    const commentId = String(comment.id)
+    const index = comments.findIndex(c => c.id === commentId)
+
+    if (action === 'deleted') {
+      if (index !== -1) comments.splice(index, 1)
+    } else {
+      const entry = normalizeThread([{
+        id: commentId,
+        author: comment.user?.login,
+        content: comment.body || '',
+        created_at: comment.created_at
+      }])[0]
+      if (index !== -1) comments[index] = entry
+      else comments.push(entry)
+    }
+
+    item.metadata.comments = comments
+    item.metadata.comments_count = Math.max(issue.comments ?? 0, comments.length)
+
+    await this.feedbackAggregator.processFeedbackDirectly([item], env, AUDIT)
+    return { status: existing ? 'updated' : 'created', id: item.id }
+  }
+
+  private async findExisting(issue: any, repository: any, env: any, isPullRequest: boolean): Promise<FeedbackItem | undefined> {
+    const sourceId = `${isPullRequest ? 'pull' : 'issues'}/${issue.number}`
+    const candidates = await this.feedbackAggregator.findBySource('github', sourceId, env)
+
+    // Fixture rows predate the repository field being mandatory, so treat a missing one as a match
+    return candidates.find(c => !c.metadata.repository || c.metadata.repository === repository?.full_name)
+  }
+
+  private toFeedbackItem(issue: any, repository: any, isPullRequest: boolean): FeedbackItem {
+    const numberKey = isPullRequest ? 'pull_number' : 'issue_number'
+
+    return normalizeRecord({
+      source_type: 'github',
+      source_id: `${isPullRequest ? 'pull' : 'issues'}/${issue.number}`,
+      title: issue.title,
+      content: issue.body || '',
+      author: issue.user?.login,
+      created_at: issue.created_at,
+      metadata: {
+        repository: repository?.full_name,
+        [numberKey]: issue.number,
+        state: issue.merged ? 'merged' : issue.state,
+        labels: (issue.labels || []).map((label: any) => typeof label === 'string' ? label : label.name),
+        assignee: issue.assignee?.login ?? null,
+        comments_count: issue.comments ?? 0,
+        comments: []
+      }
+    })
+  }
+}
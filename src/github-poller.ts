@@ -0,0 +1,93 @@
+import type { ConnectorPage, PullConnector } from './connector-scheduler'
+import type { FeedbackItem } from './feedback-aggregator'
+import { normalizeRecord } from './source-normalizers'
+
+const PAGE_SIZE = 50
+
+// Polls a repository's issues and PRs for repos where we can't install a webhook
+// (e.g. upstream projects). Configured with GITHUB_POLL_REPOS=owner/repo,owner/other.
+export class GitHubIssuesPoller implements PullConnector {
+  name: string
+
+  constructor(private repository: string) {
+    this.name = `github:${repository}`
+  }
+
+  static fromEnv(env: any): GitHubIssuesPoller[] {
+    return (env.GITHUB_POLL_REPOS || '')
+      .split(',')
+      .map((repo: string) => repo.trim())
+      .filter(Boolean)
+      .map((repo: string) => new GitHubIssuesPoller(repo))
+  }
+
+  isConfigured(env: any): boolean {
+    return (env.GITHUB_POLL_REPOS || '').split(',').map((repo: string) => repo.trim()).includes(this.repository)
+  }
+
+  // Issue numbers repeat across repositories. Like the webhook, a row without a repository
+  // (fixtures) counts as this one's.
+  isSameItem(existing: FeedbackItem): boolean {
+    return !existing.metadata.repository || existing.metadata.repository === this.repository
+  }
+
+  // The cursor is the `updated_at` of the last issue stored; `since` is inclusive, so the
+  // boundary issue is fetched again and simply upserted. When a whole page shares the
+  // boundary timestamp (a bulk label or close), the cursor becomes `<updated_at>#<page>` and
+  // the next fetch pages through that timestamp instead of asking for the same page again.
+  async fetchSince(cursor: string | null, env: any): Promise<ConnectorPage> {
+    const [since, pagePart] = (cursor || '').split('#')
+    const page = Number(pagePart) || 1
+    const params = new URLSearchParams({
+      state: 'all',
+      sort: 'updated',
+      direction: 'asc',
+      per_page: String(PAGE_SIZE),
+      page: String(page)
+    })
+    if (since) params.set('since', since)
+
+    const headers: Record<string, string> = {
+      'Accept': 'application/vnd.github+json',
+      'User-Agent': 'plexbot-feedback-aggregator'
+    }
+    if (env.GITHUB_TOKEN) headers['Authorization'] = `Bearer ${env.GITHUB_TOKEN}`
+
+    const response = await fetch(`https://api.github.com/repos/${this.repository}/issues?${params}`, { headers })
+    if (!response.ok) {
+      throw new Error(`GitHub API returned ${response.status} for ${this.repository}`)
+    }
+
+    const issues = await response.json() as any[]
+    const items = issues.map(issue => {
+      const isPullRequest = Boolean(issue.pull_request)
+      const item = normalizeRecord({
+        source_type: 'github',
+        source_id: `${isPullRequest ? 'pull' : 'issues'}/${issue.number}`,
+        title: issue.title,
+        content: issue.body || '',
+        author: issue.user?.login,
+        created_at: issue.created_at,
+        metadata: {
+          repository: this.repository,
+          [isPullRequest ? 'pull_number' : 'issue_number']: issue.number,
+          state: issue.state,
+          labels: (issue.labels || []).map((label: any) => typeof label === 'string' ? label : label.name),
+          assignee: issue.assignee?.login ?? null,
+          comments_count: issue.comments ?? 0
+        }
+      })
+      // The issues list doesn't include comment bodies; keep whatever the webhook collected
+      delete item.metadata.comments
+      return item
+    })
+
+    const hasMore = issues.length === PAGE_SIZE
+    const last = issues.length > 0 ? issues[issues.length - 1].updated_at : null
+    let nextCursor = cursor
+    if (hasMore && last === since) nextCursor = `${since}#${page + 1}`
+    else if (last && last !== since) nextCursor = last
+
+    return { items, nextCursor, hasMore }
+  }
+}
@@ -1,8 +1,35 @@
-import { Hono } from 'hono'
+import { Hono, Context } from 'hono'
+import { routePath } from 'hono/route'
 import { cors } from 'hono/cors'
 import { SlackBot } from './slack-bot'
 import { FeedbackAggregator } from './feedback-aggregator'
 import { NetworkVisualizer } from './network-visualizer'
+import { requireApiKey, AppVariables } from './auth'
+import { validateFeedbackPayload } from './feedback-validation'
+import { FIXTURE_NAMES } from './fixture-loader'
+import { GitHubConnector } from './github-connector'
+import { JiraConnector } from './jira-connector'
+import { EmailIngestion } from './email-ingestion'
+import { TeamsBot } from './teams-bot'
+import { ConnectorScheduler, PullConnector } from './connector-scheduler'
+import { GitHubIssuesPoller } from './github-poller'
+import { FreeTierManager } from './free-tier-optimizations'
+import { FeedbackImportExport, BulkFormat, parseColumnMapping } from './feedback-import-export'
+import { parseFeedbackFilters, decodeCursor } from './feedback-query'
+import { FeedbackForm } from './feedback-form'
+import { renderFormWidget } from './form-widget'
+import { MigrationRunner } from './migration-runner'
+import { FeedbackClustering } from './feedback-clustering'
+import { FeedbackThemes } from './feedback-themes'
+import { FeedbackSentiment } from './feedback-sentiment'
+import { FeedbackSearch } from './feedback-search'
+import { FeedbackTriage } from './feedback-triage'
+import { FeedbackRetention } from './feedback-retention'
+import { AccountManager, ACCOUNT_ID_PATTERN, validateAccountInput } from './account-manager'
+import { MetricSnapshots, DAY_PATTERN, toDay } from './metric-snapshots'
+import { AuditLog, AuditContext, parseAuditFilters } from './audit-log'
+import { loadSeverityModel } from './severity-model'
+import { TaxonomyStore, TaxonomyKind, TAXONOMY_KINDS, validateTaxonomyRule } from './taxonomy'
 
 // Cloudflare Workers types
 export interface Env {
@@ -16,9 +43,20 @@ export interface Env {
   SLACK_BOT_USER_ID: string
   SLACK_REPORT_CHANNELS: string
   SLACK_VISUALIZATION_CHANNELS: string
+  FEEDBACK_API_KEY: string
+  ADMIN_API_KEY: string
+  GITHUB_WEBHOOK_SECRET: string
+  JIRA_WEBHOOK_SECRET: string
+  TEAMS_WEBHOOK_SECRET: string
+  GITHUB_POLL_REPOS: string
+  GITHUB_TOKEN: string
+  FORM_RATE_LIMIT: string
+  RETENTION_DAYS: string
+  RETENTION_MODE: string
+  SEVERITY_WEIGHTS: string
 }
 
-const app = new Hono<{ Bindings: Env }>()
+const app = new Hono<{ Bindings: Env, Variables: AppVariables }>()
 
 // Enable CORS for web interface
 app.use('/api/*', cors())
@@ -27,20 +65,77 @@ app.use('/api/*', cors())
 const slackBot = new SlackBot()
 const feedbackAggregator = new FeedbackAggregator()
 const networkVisualizer = new NetworkVisualizer()
+const githubConnector = new GitHubConnector()
+const jiraConnector = new JiraConnector()
+const emailIngestion = new EmailIngestion()
+const teamsBot = new TeamsBot()
+const feedbackImportExport = new FeedbackImportExport()
+const feedbackForm = new FeedbackForm()
+const feedbackClustering = new FeedbackClustering()
+const feedbackThemes = new FeedbackThemes()
+const feedbackSentiment = new FeedbackSentiment()
+const feedbackSearch = new FeedbackSearch()
+const feedbackTriage = new FeedbackTriage()
+const feedbackRetention = new FeedbackRetention()
+const accountManager = new AccountManager()
+const metricSnapshots = new MetricSnapshots()
+const auditLog = new AuditLog()
+const taxonomyStore = new TaxonomyStore()
+
+// Audit attribution on API-key routes: the key's fingerprint and the matched route
+function auditContext(c: Context<{ Bindings: Env, Variables: AppVariables }>): AuditContext {
+  return { actor: c.get('actor'), route: `${c.req.method} ${routePath(c)}` }
+}
+
+// After a taxonomy change: re-enrich every item under the new rules
+async function recategorize(env: Env): Promise<void> {
+  try {
+    const result = await feedbackAggregator.reenrichStale(env)
+    console.log('Re-categorized feedback:', result)
+  } catch (error) {
+    console.error('Re-categorization failed:', error)
+  }
+}
+
+// Admin actions are logged with what they did
+async function auditAdminAction(c: Context<{ Bindings: Env, Variables: AppVariables }>, name: string, details: unknown): Promise<void> {
+  await auditLog.record([{ action: 'run', entity_type: 'admin', entity_id: name, details }], auditContext(c), c.env)
+}
+
+// Pull connectors run by the cron trigger; their list depends on configuration
+function buildConnectors(env: Env): PullConnector[] {
+  return [...GitHubIssuesPoller.fromEnv(env)]
+}
+
+// Embeddable feedback widget for the product dashboard
+app.get('/forms/widget.js', (c) => {
+  const endpoint = new URL('/api/forms/submit', c.req.url).toString()
+  c.header('Content-Type', 'application/javascript; charset=utf-8')
+  c.header('Cache-Control', 'public, max-age=3600')
+  return c.body(renderFormWidget(endpoint))
+})
 
 // Slack events endpoint
 app.post('/slack/events', async (c) => {
+  const rawBody = await c.req.text()
+
+  // Messages, slash commands and button clicks all change feedback, so nothing unsigned gets through
+  const signature = c.req.header('X-Slack-Signature')
+  const timestamp = c.req.header('X-Slack-Request-Timestamp')
+  if (!(await slackBot.verifyRequest(rawBody, signature, timestamp, c.env.SLACK_SIGNING_SECRET))) {
+    return c.json({ error: 'Invalid signature' }, 401)
+  }
+
   let body: any
 
   // Handle different content types
   const contentType = c.req.header('content-type') || ''
 
   if (contentType.includes('application/json')) {
-    body = await c.req.json()
+    body = JSON.parse(rawBody)
   } else if (contentType.includes('application/x-www-form-urlencoded')) {
-    const formData = await c.req.text()
     // Parse form data - Slack sends payload as URL-encoded JSON string
-    const params = new URLSearchParams(formData)
+    const params = new URLSearchParams(rawBody)
     const payload = params.get('payload')
     if (payload) {
       body = JSON.parse(payload)
@@ -55,19 +150,67 @@ app.post('/slack/events', async (c) => {
     return c.json({ error: 'Unsupported content type' }, 400)
   }
 
-  const signature = c.req.header('X-Slack-Signature')
-  const timestamp = c.req.header('X-Slack-Request-Timestamp')
-
-  // Verify Slack request - skip for testing
-  // if (!slackBot.verifyRequest(body, signature, timestamp, c.env.SLACK_SIGNING_SECRET)) {
-  //   return c.json({ error: 'Invalid signature' }, 401)
-  // }
-
   // Handle Slack events
   const response = await slackBot.handleEvent(body, c.env)
   return c.json(response)
 })
 
+// Microsoft Teams outgoing webhook: channel feedback capture and @mention answers
+app.post('/teams/messages', async (c) => {
+  const rawBody = await c.req.text()
+
+  if (!(await teamsBot.verifyRequest(rawBody, c.req.header('Authorization'), c.env.TEAMS_WEBHOOK_SECRET))) {
+    return c.json({ error: 'Invalid signature' }, 401)
+  }
+
+  try {
+    const reply = await teamsBot.handleActivity(JSON.parse(rawBody), c.env)
+    return c.json(reply)
+  } catch (error) {
+    console.error('Teams activity failed:', error)
+    return c.json({ type: 'message', text: 'Sorry, something went wrong processing that message.' })
+  }
+})
+
+// GitHub webhooks (issues, issue_comment, pull_request)
+app.post('/webhooks/github', async (c) => {
+  const rawBody = await c.req.text()
+  const signature = c.req.header('X-Hub-Signature-256')
+
+  if (!(await githubConnector.verifySignature(rawBody, signature, c.env.GITHUB_WEBHOOK_SECRET))) {
+    return c.json({ error: 'Invalid signature' }, 401)
+  }
+
+  const eventName = c.req.header('X-GitHub-Event') || ''
+  if (eventName === 'ping') {
+    return c.json({ ok: true, zen: 'pong' })
+  }
+
+  try {
+    const result = await githubConnector.handleEvent(eventName, JSON.parse(rawBody), c.env)
+    return c.json(result, result.status === 'created' ? 201 : 200)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Jira webhooks (issue created/updated/deleted, comment created/updated/deleted)
+app.post('/webhooks/jira', async (c) => {
+  const rawBody = await c.req.text()
+  const signature = c.req.header('X-Hub-Signature')
+
+  if (!(await jiraConnector.verifySignature(rawBody, signature, c.env.JIRA_WEBHOOK_SECRET))) {
+    return c.json({ error: 'Invalid signature' }, 401)
+  }
+
+  try {
+    const result = await jiraConnector.handleEvent(JSON.parse(rawBody), c.env)
+    return c.json(result, result.status === 'created' ? 201 : 200)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
 // Health check endpoint
 app.get('/health', (c) => c.json({ status: 'ok', timestamp: new Date().toISOString() }))
 
@@ -308,6 +451,8 @@ app.get('/', async (c) => {
 /feedback-summary     # Get overall feedback statistics
 /network-insights     # AI-powered analysis with recommendations
 /network-viz         # Network stack health visualization
+/feedback-search     # Keyword search, e.g. /feedback-search snmp memory leak
+/feedback-triage     # Acknowledge, assign or resolve an item by id
         </div>
         <p><strong>Or chat naturally:</strong> @PlexBot what are the main performance issues?</p>
     </div>
@@ -357,6 +502,517 @@ app.get('/api/feedback/insights', async (c) => {
   }
 })
 
+// Keyword search over title and content (?q=, filters source_type, author, from, to, ?limit=).
+// Results carry the original text, so the route needs an API key like /api/feedback.
+app.get('/api/feedback/search', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  const q = (c.req.query('q') || '').trim()
+  if (!q) {
+    return c.json({ error: 'q is required' }, 400)
+  }
+
+  try {
+    const results = await feedbackSearch.search(q, parseFeedbackFilters(c.req.query()), c.env, {
+      limit: parseInt(c.req.query('limit') || '20', 10) || 20
+    })
+    return c.json({ query: q, count: results.length, results })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Daily snapshots for trend charts: ?metric=critical,sentiment,category:* (comma-separated; `family:*`
+// for every source:, category: or layer: metric), ?from=&to= as YYYY-MM-DD (default: the last 30 days)
+app.get('/api/metrics/history', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  const metrics = (c.req.query('metric') || '').split(',').map(metric => metric.trim()).filter(Boolean)
+  const isDay = (value: string) => DAY_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+  const to = c.req.query('to') || toDay(new Date())
+  // `to` is checked before the default `from` is derived from it
+  if (!isDay(to)) {
+    return c.json({ error: 'from and to must be dates (YYYY-MM-DD)' }, 400)
+  }
+  const from = c.req.query('from') || toDay(new Date(Date.parse(to) - 30 * 24 * 60 * 60 * 1000))
+  if (!isDay(from)) {
+    return c.json({ error: 'from and to must be dates (YYYY-MM-DD)' }, 400)
+  }
+
+  try {
+    if (metrics.length === 0) {
+      return c.json({ error: 'metric is required', available: await metricSnapshots.listMetrics(c.env) }, 400)
+    }
+    const history = await metricSnapshots.getHistory(metrics, from, to, c.env)
+    return c.json(history)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Groups of items reporting the same issue across sources (?min_size=1 includes singletons).
+// Read-only: new items are clustered by the cron trigger or POST /api/admin/clusters/rebuild.
+app.get('/api/clusters', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  try {
+    const minSize = Math.max(1, parseInt(c.req.query('min_size') || '2', 10) || 2)
+    const clusters = await feedbackClustering.getClusters(c.env, minSize)
+    return c.json({ clusters, count: clusters.length })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+app.get('/api/clusters/:id', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  try {
+    const cluster = await feedbackClustering.getCluster(c.req.param('id'), c.env)
+    if (!cluster) return c.json({ error: 'Cluster not found' }, 404)
+    return c.json(cluster)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Themes found by grouping item embeddings, largest first, with their most central items
+app.get('/api/themes', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  try {
+    const themes = await feedbackThemes.getThemes(c.env)
+    return c.json({ themes, count: themes.length })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Authenticated ingestion for internal tools: a single item, an array, or { items: [...] }
+app.post('/api/feedback', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch {
+    return c.json({ error: 'Request body must be valid JSON' }, 400)
+  }
+
+  const { items, errors } = validateFeedbackPayload(body)
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: errors }, 422)
+  }
+
+  try {
+    const ids = await feedbackAggregator.processFeedbackDirectly(items, c.env, auditContext(c))
+    return c.json({ ids, count: ids.length }, 201)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Bulk backfill: NDJSON or CSV body, optional ?mapping= to rename columns and ?source_type= default.
+// Invalid rows are reported with their row number; the rest are still imported.
+app.post('/api/feedback/import', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  const contentType = c.req.header('Content-Type') || ''
+  const format = (c.req.query('format') || (contentType.includes('csv') ? 'csv' : 'ndjson')) as BulkFormat
+  if (format !== 'csv' && format !== 'ndjson') {
+    return c.json({ error: 'format must be ndjson or csv' }, 400)
+  }
+
+  let mapping: Record<string, string>
+  try {
+    mapping = parseColumnMapping(c.req.query('mapping'))
+  } catch {
+    return c.json({ error: 'mapping must be JSON or column:field pairs' }, 400)
+  }
+
+  try {
+    const body = await c.req.text()
+    const result = await feedbackImportExport.importFeedback(body, {
+      format,
+      mapping,
+      defaultSourceType: c.req.query('source_type'),
+      audit: auditContext(c)
+    }, c.env)
+    return c.json(result, result.imported > 0 ? 201 : 422)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Streams all matching feedback; filters: source_type, author, from, to
+app.get('/api/feedback/export', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  const format = (c.req.query('format') || 'ndjson') as BulkFormat
+  if (format !== 'csv' && format !== 'ndjson') {
+    return c.json({ error: 'format must be ndjson or csv' }, 400)
+  }
+
+  const stream = feedbackImportExport.exportFeedback(format, parseFeedbackFilters(c.req.query()), c.env)
+  return new Response(stream, {
+    headers: {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+      'Content-Disposition': `attachment; filename="feedback.${format === 'csv' ? 'csv' : 'ndjson'}"`
+    }
+  })
+})
+
+// Raw feedback, newest first: filters source_type, author, label, from, to, category, severity,
+// min_severity, status, assignee, account; ?limit= (max 100) and ?cursor= from the previous page's next_cursor
+app.get('/api/feedback', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  const cursor = c.req.query('cursor')
+  if (cursor && !decodeCursor(cursor)) {
+    return c.json({ error: 'Invalid cursor' }, 400)
+  }
+
+  try {
+    const page = await feedbackAggregator.listFeedback(parseFeedbackFilters(c.req.query()), {
+      cursor,
+      limit: parseInt(c.req.query('limit') || '20', 10) || 20
+    }, c.env)
+    return c.json(page)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Registered after the other /api/feedback/* GET routes so it doesn't shadow them
+app.get('/api/feedback/:id', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  try {
+    const item = await feedbackAggregator.getFeedbackDetail(c.req.param('id'), c.env)
+    return item ? c.json(item) : c.json({ error: 'Feedback not found' }, 404)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Triage: any of { status, assignee, resolution }. Status moves follow TRIAGE_TRANSITIONS
+// (409 otherwise); closed items (resolved, wont-fix) drop out of the critical issues and priority matrix.
+app.patch('/api/feedback/:id', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch {
+    return c.json({ error: 'Request body must be valid JSON' }, 400)
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return c.json({ error: 'Request body must be an object' }, 400)
+  }
+
+  try {
+    const id = c.req.param('id')
+    const result = await feedbackTriage.update(id, {
+      status: body.status,
+      assignee: body.assignee,
+      resolution: body.resolution
+    }, auditContext(c), c.env)
+
+    if (result.status !== 'updated') {
+      const code = result.status === 'not_found' ? 404 : result.status === 'conflict' ? 409 : 422
+      return c.json({ error: result.reason }, code)
+    }
+
+    await feedbackAggregator.invalidateCaches(c.env)
+    return c.json(await feedbackAggregator.getFeedbackDetail(id, c.env))
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Customer accounts, largest ARR first, with the author/domain rules that map feedback to them
+app.get('/api/accounts', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  try {
+    const accounts = await accountManager.listAccounts(c.env)
+    return c.json({ accounts, count: accounts.length })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// One account's feedback: open critical issues, top categories and pain points, monthly sentiment
+app.get('/api/accounts/:id/feedback', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  try {
+    const rollup = await accountManager.getRollup(c.req.param('id'), c.env)
+    return rollup ? c.json(rollup) : c.json({ error: 'Account not found' }, 404)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Create or replace an account: { name, tier, arr, authors: [...], domains: [...] }. An author or
+// domain can map to one account only (409 otherwise).
+app.put('/api/accounts/:id', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  const id = c.req.param('id')
+  if (!ACCOUNT_ID_PATTERN.test(id)) {
+    return c.json({ error: 'Account id must be lowercase letters, digits, - or _' }, 400)
+  }
+
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch {
+    return c.json({ error: 'Request body must be valid JSON' }, 400)
+  }
+
+  const { input, errors } = validateAccountInput(body)
+  if (!input) {
+    return c.json({ error: 'Validation failed', details: errors }, 422)
+  }
+
+  try {
+    const result = await accountManager.saveAccount(id, input, auditContext(c), c.env)
+    if (result.status === 'conflict') {
+      return c.json({ error: result.reason }, 409)
+    }
+    return c.json(result.account, result.status === 'created' ? 201 : 200)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+app.delete('/api/accounts/:id', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  try {
+    const deleted = await accountManager.deleteAccount(c.req.param('id'), auditContext(c), c.env)
+    return deleted ? c.json({ deleted: true }) : c.json({ error: 'Account not found' }, 404)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// The severity weights in effect (SEVERITY_WEIGHTS over the defaults) and their version; each
+// item's enrichment.severity_breakdown lists the ones it matched
+app.get('/api/severity', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  try {
+    return c.json(await loadSeverityModel(c.env))
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// The categorization taxonomy every analysis reads: categories (with priority), journey stages
+// and tracked features, plus its version (stored with each item's enrichment)
+app.get('/api/taxonomy', requireApiKey('FEEDBACK_API_KEY'), async (c) => {
+  try {
+    const taxonomy = await taxonomyStore.load(c.env)
+    const kind = c.req.query('kind')
+    return c.json({ ...taxonomy, rules: kind ? taxonomy.rules.filter(rule => rule.kind === kind) : taxonomy.rules })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Create or replace a rule: { keywords: [...], patterns: [...], labels: [...], priority }. Stored
+// items are re-categorized in the background (and by the cron if the D1 budget runs out).
+app.put('/api/taxonomy/:kind/:name', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  const kind = c.req.param('kind') as TaxonomyKind
+  if (!TAXONOMY_KINDS.includes(kind)) {
+    return c.json({ error: `kind must be one of ${TAXONOMY_KINDS.join(', ')}` }, 400)
+  }
+
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch {
+    return c.json({ error: 'Request body must be valid JSON' }, 400)
+  }
+
+  const name = c.req.param('name').trim()
+  const { input, errors } = validateTaxonomyRule(kind, name, body)
+  if (!input) {
+    return c.json({ error: 'Validation failed', details: errors }, 422)
+  }
+
+  try {
+    const result = await taxonomyStore.saveRule(kind, name, input, auditContext(c), c.env)
+    c.executionCtx.waitUntil(recategorize(c.env))
+    return c.json(result.rule, result.status === 'created' ? 201 : 200)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+app.delete('/api/taxonomy/:kind/:name', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  try {
+    const deleted = await taxonomyStore.deleteRule(c.req.param('kind') as TaxonomyKind, c.req.param('name'), auditContext(c), c.env)
+    if (!deleted) return c.json({ error: 'Rule not found' }, 404)
+    c.executionCtx.waitUntil(recategorize(c.env))
+    return c.json({ deleted: true })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Public endpoint behind the embeddable dashboard widget (no API key; rate limited per client IP)
+app.post('/api/forms/submit', async (c) => {
+  let body: any
+  try {
+    body = await c.req.json()
+  } catch {
+    return c.json({ error: 'Request body must be valid JSON' }, 400)
+  }
+
+  try {
+    const result = await feedbackForm.handleSubmission(
+      body,
+      c.req.header('CF-Connecting-IP') || 'unknown',
+      c.req.header('User-Agent') || '',
+      c.env
+    )
+
+    if (result.status === 'invalid') {
+      return c.json({ error: 'Validation failed', details: result.errors }, 422)
+    }
+    if (result.status === 'rate_limited') {
+      c.header('Retry-After', String(result.retryAfter))
+      return c.json({ error: 'Too many submissions, try again later' }, 429)
+    }
+    // Honeypot hits get the same response as real submissions
+    return c.json({ success: true }, 201)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Load the data/*.json fixtures into D1 (optionally a subset: { "fixtures": ["github-issues"] })
+app.post('/api/admin/seed', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  // No body seeds every fixture
+  const body = await c.req.json().catch(() => ({}))
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return c.json({ error: 'Request body must be a JSON object' }, 400)
+  }
+  const fixtures = body.fixtures ?? FIXTURE_NAMES
+  if (!Array.isArray(fixtures) || !fixtures.every(name => typeof name === 'string')) {
+    return c.json({ error: '`fixtures` must be an array of fixture names', available: FIXTURE_NAMES }, 400)
+  }
+
+  const unknown = fixtures.filter(name => !FIXTURE_NAMES.includes(name))
+  if (unknown.length > 0) {
+    return c.json({ error: `Unknown fixtures: ${unknown.join(', ')}`, available: FIXTURE_NAMES }, 400)
+  }
+
+  try {
+    const ids = await feedbackAggregator.seedFromFixtures(c.env, fixtures, auditContext(c))
+    await auditAdminAction(c, 'seed', { fixtures, count: ids.length })
+    return c.json({ fixtures, ids, count: ids.length })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Recompute every cluster from scratch (e.g. after changing the similarity threshold)
+app.post('/api/admin/clusters/rebuild', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  try {
+    const result = await feedbackClustering.rebuild(c.env)
+    await auditAdminAction(c, 'clusters-rebuild', result)
+    return c.json(result)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Embed pending items (within the AI budget) and regroup every vector into themes now
+app.post('/api/admin/themes/rebuild', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  try {
+    const embedding = await feedbackThemes.embedPending(c.env)
+    const themes = await feedbackThemes.rebuild(c.env)
+    await auditAdminAction(c, 'themes-rebuild', { embedding, themes })
+    return c.json({ embedding, themes })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Re-score lexicon-scored items with Workers AI now, as far as the AI budget goes
+app.post('/api/admin/sentiment/rescore', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  try {
+    const result = await feedbackSentiment.scorePending(c.env)
+    await auditAdminAction(c, 'sentiment-rescore', result)
+    return c.json(result)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Apply the retention policy now (RETENTION_DAYS / RETENTION_MODE); the cron does the same on every run
+app.post('/api/admin/retention/run', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  const policy = FeedbackRetention.policyFromEnv(c.env)
+  if (!policy) {
+    return c.json({ error: 'Retention is off: set RETENTION_DAYS' }, 400)
+  }
+
+  try {
+    const result = await feedbackRetention.apply(policy, c.env, auditContext(c))
+    await auditAdminAction(c, 'retention', result)
+    return c.json(result)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Take (or retake) today's metric snapshot; the cron does this once a day
+app.post('/api/admin/metrics/snapshot', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  try {
+    const result = await metricSnapshots.capture(c.env)
+    if (result) await auditAdminAction(c, 'metrics-snapshot', result)
+    return result ? c.json(result) : c.json({ error: 'D1 write budget exhausted, try again later' }, 503)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Enrich items stored before feedback_enrichment existed or under older rules
+// (ENRICHMENT_RULES_VERSION); the cron does the same on every run
+app.post('/api/admin/enrichment/rerun', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  try {
+    const result = await feedbackAggregator.reenrichStale(c.env)
+    await auditAdminAction(c, 'enrichment-rerun', result)
+    return c.json(result)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Applied and pending schema migrations
+app.get('/api/admin/migrations', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  try {
+    const migrations = await new MigrationRunner().getStatus(c.env)
+    return c.json({ migrations })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Apply pending migrations (same runner as `npm run db:migrate`)
+app.post('/api/admin/migrations', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  try {
+    const runner = new MigrationRunner()
+    const applied = await runner.migrate(c.env)
+    if (applied.length > 0) await auditAdminAction(c, 'migrations', { applied: applied.map(migration => migration.name) })
+    return c.json({ applied, migrations: await runner.getStatus(c.env) })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// The audit log, newest first: filters actor, action, entity_type, entity_id, route, from, to;
+// ?limit= (max 100) and ?cursor= from the previous page's next_cursor. Read-only: there is no
+// route (or SQL) that edits or deletes entries.
+app.get('/api/audit', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  const cursor = c.req.query('cursor')
+  if (cursor && !/^\d+$/.test(cursor)) {
+    return c.json({ error: 'Invalid cursor' }, 400)
+  }
+
+  try {
+    const page = await auditLog.list(parseAuditFilters(c.req.query()), {
+      cursor,
+      limit: parseInt(c.req.query('limit') || '50', 10) || 50
+    }, c.env)
+    return c.json(page)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
+// Cursor, last run and budget status for each scheduled connector
+app.get('/api/admin/connectors', requireApiKey('ADMIN_API_KEY'), async (c) => {
+  try {
+    const connectors = await new ConnectorScheduler(buildConnectors(c.env)).getHealth(c.env)
+    return c.json({ connectors, usage: FreeTierManager.getInstance().getUsageStats() })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 500)
+  }
+})
+
 app.get('/api/network/visualization', async (c) => {
   try {
     const visualization = await networkVisualizer.generateVisualization(c.env)
@@ -369,6 +1025,61 @@ app.get('/api/network/visualization', async (c) => {
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     return app.fetch(request, env, ctx)
+  },
+
+  // Cron trigger: pull connectors resume from their stored cursors
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(new ConnectorScheduler(buildConnectors(env)).runAll(env).then(results => {
+      console.log('Scheduled connector run:', results.map(r => `${r.name}: ${r.last_status} (${r.items_last_run})`).join(', ') || 'no connectors configured')
+    }).catch(error => {
+      console.error('Connector sync failed:', error)
+    }))
+    ctx.waitUntil(feedbackForm.pruneRateLimits(env).catch(error => {
+      console.error('Form rate limit cleanup failed:', error)
+    }))
+    ctx.waitUntil(feedbackAggregator.reenrichStale(env).then(result => {
+      if (result.enriched > 0) console.log('Re-enriched feedback:', result)
+    }).catch(error => {
+      console.error('Feedback enrichment failed:', error)
+    }))
+    const retentionPolicy = FeedbackRetention.policyFromEnv(env)
+    if (retentionPolicy) {
+      ctx.waitUntil(feedbackRetention.apply(retentionPolicy, env).then(result => {
+        if (result.processed > 0) console.log('Applied feedback retention:', result)
+      }).catch(error => {
+        console.error('Feedback retention failed:', error)
+      }))
+    }
+    ctx.waitUntil(feedbackClustering.clusterPending(env).then(result => {
+      if (result) console.log('Clustered new feedback:', result)
+    }).catch(error => {
+      console.error('Feedback clustering failed:', error)
+    }))
+    ctx.waitUntil(feedbackThemes.refresh(env).then(result => {
+      if (result.embedding.embedded > 0 || result.themes) console.log('Refreshed feedback themes:', result)
+    }).catch(error => {
+      console.error('Feedback themes failed:', error)
+    }))
+    ctx.waitUntil(feedbackSentiment.scorePending(env).then(result => {
+      if (result.scored > 0 || result.unscored > 0) console.log('Scored feedback sentiment:', result)
+    }).catch(error => {
+      console.error('Sentiment scoring failed:', error)
+    }))
+    ctx.waitUntil(metricSnapshots.captureIfDue(env).then(result => {
+      if (result) console.log('Captured metric snapshot:', result)
+    }).catch(error => {
+      console.error('Metric snapshot failed:', error)
+    }))
+  },
+
+  // Inbound mail routed to the worker via Email Routing becomes `email` feedback
+  async email(message: ForwardableEmailMessage, env: Env, ctx: ExecutionContext): Promise<void> {
+    try {
+      const result = await emailIngestion.handleMessage(message, env)
+      console.log('Inbound email processed:', result)
+    } catch (error) {
+      console.error('Inbound email ingestion failed:', error)
+    }
   }
 } satisfies ExportedHandler<Env>
 
@@ -0,0 +1,156 @@
+import { FeedbackAggregator, FeedbackItem } from './feedback-aggregator'
+import { normalizeRecord, normalizeThread } from './source-normalizers'
+import { hmacSha256Hex, timingSafeEqual } from './crypto-utils'
+import type { WebhookResult } from './github-connector'
+import type { AuditContext } from './audit-log'
+
+// How changes from Jira webhooks appear in the audit log
+const AUDIT: AuditContext = { actor: 'webhook:jira', route: 'POST /webhooks/jira' }
+
+// Statuses that mean the problem was resolved upstream, for workflows without a status category
+const RESOLVED_STATUSES = ['done', 'resolved', 'closed', 'fixed', "won't fix", 'wont fix']
+
+export interface StatusTransition {
+  from: string | null
+  to: string
+  at: string
+  by?: string
+}
+
+// Receives Jira issue and comment webhooks and keeps one feedback row per issue key,
+// shaped like data/jira-issues.json
+export class JiraConnector {
+  private feedbackAggregator = new FeedbackAggregator()
+
+  // Jira Cloud signs webhooks registered with a secret as `X-Hub-Signature: sha256=<hex>`
+  async verifySignature(rawBody: string, signature: string | undefined, secret: string): Promise<boolean> {
+    if (!signature || !secret || !signature.startsWith('sha256=')) return false
+
+    const expected = `sha256=${await hmacSha256Hex(secret, rawBody)}`
+    return timingSafeEqual(expected, signature)
+  }
+
+  async handleEvent(payload: any, env: any): Promise<WebhookResult> {
+    const event: string = payload.webhookEvent || ''
+    const issue = payload.issue
+    if (!issue?.key) return { status: 'ignored', reason: 'Payload has no issue' }
+
+    const existing = (await this.feedbackAggregator.findBySource('jira', issue.key, env))[0]
+
+    if (event === 'jira:issue_deleted') {
+      if (!existing) return { status: 'ignored', reason: 'Issue was never ingested' }
+      await this.feedbackAggregator.deleteFeedback(existing.id, env, AUDIT)
+      return { status: 'deleted', id: existing.id }
+    }
+
+    if (!['jira:issue_created', 'jira:issue_updated', 'comment_created', 'comment_updated', 'comment_deleted'].includes(event)) {
+      return { status: 'ignored', reason: `Unsupported event: ${event}` }
+    }
+
+    // Comment webhooks carry only part of the issue (no description, reporter or created date),
+    // so they change nothing on a stored issue but its comments
+    const commentOnly = event.startsWith('comment_') && existing !== undefined
+    const item = commentOnly ? { ...existing, metadata: { ...existing.metadata } } : this.toFeedbackItem(issue)
+    if (existing && !commentOnly) {
+      item.id = existing.id
+      item.metadata = { ...existing.metadata, ...item.metadata }
+      // Issue webhooks don't always carry the full comment list, so keep what we have
+      if (!issue.fields?.comment?.comments) item.metadata.comments = existing.metadata.comments || []
+    }
+
+    if (payload.comment) {
+      item.metadata.comments = this.applyCommentEvent(event, payload.comment, item.metadata.comments)
+    }
+
+    if (!commentOnly) this.recordStatusTransitions(item, existing, payload)
+
+    await this.feedbackAggregator.processFeedbackDirectly([item], env, AUDIT)
+    return { status: existing ? 'updated' : 'created', id: item.id }
+  }
+
+  private applyCommentEvent(event: string, comment: any, current: any[]): any[] {
+    const comments = normalizeThread(current)
+    const commentId = String(comment.id)
+    const index = comments.findIndex(c => c.id === commentId)
+
+    if (event === 'comment_deleted') {
+      if (index !== -1) comments.splice(index, 1)
+      return comments
+    }
+
+    const entry = normalizeThread([this.toThreadEntry(comment)])[0]
+    if (index !== -1) comments[index] = entry
+    else comments.push(entry)
+    return comments
+  }
+
+  // Append to metadata.status_history and keep metadata.resolved_at in step with the current status
+  private recordStatusTransitions(item: FeedbackItem, existing: FeedbackItem | undefined, payload: any): void {
+    const history: StatusTransition[] = [...(existing?.metadata.status_history || [])]
+    const at = payload.timestamp ? new Date(payload.timestamp).toISOString() : new Date().toISOString()
+    const by = payload.user?.displayName
+
+    const changes = (payload.changelog?.items || []).filter((change: any) => change.field === 'status')
+    if (changes.length > 0) {
+      changes.forEach((change: any) => history.push({ from: change.fromString ?? null, to: change.toString, at, by }))
+    } else if (!existing || existing.metadata.status !== item.metadata.status) {
+      // No changelog (e.g. issue_created or a missed event): record what we observed
+      history.push({ from: existing?.metadata.status ?? null, to: item.metadata.status, at, by })
+    }
+
+    item.metadata.status_history = history
+
+    const category = payload.issue.fields?.status?.statusCategory?.key
+    const resolved = category ? category === 'done' : RESOLVED_STATUSES.includes(String(item.metadata.status).toLowerCase())
+    if (resolved) {
+      item.metadata.resolved_at = existing?.metadata.resolved_at || at
+    } else {
+      delete item.metadata.resolved_at
+    }
+  }
+
+  private toFeedbackItem(issue: any): FeedbackItem {
+    const fields = issue.fields || {}
+
+    return normalizeRecord({
+      source_type: 'jira',
+      source_id: issue.key,
+      title: fields.summary,
+      content: this.toPlainText(fields.description),
+      author: fields.reporter?.displayName || fields.creator?.displayName,
+      author_email: fields.reporter?.emailAddress,
+      created_at: fields.created,
+      metadata: {
+        issue_type: fields.issuetype?.name,
+        status: fields.status?.name,
+        priority: fields.priority?.name,
+        assignee: fields.assignee?.displayName ?? null,
+        labels: fields.labels || [],
+        components: (fields.components || []).map((component: any) => component.name),
+        attachments: (fields.attachment || []).map((attachment: any) => attachment.filename),
+        comments: (fields.comment?.comments || []).map((comment: any) => this.toThreadEntry(comment))
+      }
+    })
+  }
+
+  private toThreadEntry(comment: any): any {
+    return {
+      id: comment.id,
+      author: comment.author?.displayName || comment.updateAuthor?.displayName,
+      content: this.toPlainText(comment.body),
+      created_at: comment.created
+    }
+  }
+
+  // REST v3 payloads use Atlassian Document Format instead of plain strings
+  private toPlainText(value: any): string {
+    if (!value) return ''
+    if (typeof value === 'string') return value
+    if (value.type === 'text') return value.text || ''
+
+    const children = (value.content || []).map((child: any) => this.toPlainText(child))
+    return ['paragraph', 'heading', 'listItem', 'codeBlock'].includes(value.type)
+      ? children.join('') + '\n'
+      : children.join('')
+  }
+}
@@ -0,0 +1,150 @@
+import { CLOSED_STATUSES } from './feedback-triage'
+import { WEIGHTED_SENTIMENT } from './feedback-sentiment'
+import { FreeTierManager } from './free-tier-optimizations'
+import { NetworkVisualizer } from './network-visualizer'
+
+export interface MetricPoint {
+  day: string
+  value: number
+}
+
+export interface MetricHistory {
+  from: string
+  to: string
+  // Oldest first; days without a snapshot are missing rather than zero
+  metrics: Record<string, MetricPoint[]>
+}
+
+export interface SnapshotResult {
+  day: string
+  metrics: number
+}
+
+// Categories beyond the most common ones aren't worth a row a day
+const MAX_CATEGORY_METRICS = 20
+
+export const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// YYYY-MM-DD (UTC) for a date
+export function toDay(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+// "Data Link Layer" -> "data-link"
+function layerMetric(name: string): string {
+  return `layer:${name.replace(/ Layer$/, '').toLowerCase().replace(/\s+/g, '-')}`
+}
+
+// Daily totals written to metric_snapshots by the cron, so trends survive past the live views
+// (which only ever show the current state)
+export class MetricSnapshots {
+  private networkVisualizer = new NetworkVisualizer()
+  private freeTierManager = FreeTierManager.getInstance()
+
+  // The cron runs every 15 minutes; only the first run of a (UTC) day takes the snapshot
+  async captureIfDue(env: any): Promise<SnapshotResult | null> {
+    const day = toDay(new Date())
+    const existing = await env.FEEDBACK_DB.prepare('SELECT 1 AS present FROM metric_snapshots WHERE day = ? LIMIT 1').bind(day).first()
+    if (existing) return null
+    return this.capture(env, day)
+  }
+
+  // Computes every metric from the current data and replaces the day's rows
+  async capture(env: any, day: string = toDay(new Date())): Promise<SnapshotResult | null> {
+    const metrics = await this.computeMetrics(env)
+    const rows = Object.entries(metrics)
+
+    if (!this.freeTierManager.canWriteToD1(rows.length)) {
+      console.log('Skipping metric snapshot: D1 write budget exhausted')
+      return null
+    }
+
+    // `WHERE true` keeps SQLite from reading ON CONFLICT as part of the SELECT
+    await env.FEEDBACK_DB.batch([
+      env.FEEDBACK_DB.prepare('DELETE FROM metric_snapshots WHERE day = ?').bind(day),
+      env.FEEDBACK_DB.prepare(`
+        INSERT INTO metric_snapshots (day, metric, value, captured_at)
+        SELECT ?, json_extract(value, '$[0]'), json_extract(value, '$[1]'), ? FROM json_each(?) WHERE true
+        ON CONFLICT (metric, day) DO UPDATE SET value = excluded.value, captured_at = excluded.captured_at
+      `).bind(day, new Date().toISOString(), JSON.stringify(rows))
+    ])
+    this.freeTierManager.recordD1RowsWritten(rows.length)
+
+    return { day, metrics: rows.length }
+  }
+
+  // `metrics` are exact names or whole families (`category:*`); `from`/`to` are inclusive days
+  async getHistory(metrics: string[], from: string, to: string, env: any): Promise<MetricHistory> {
+    const exact = metrics.filter(metric => !metric.endsWith(':*'))
+    const prefixes = metrics.filter(metric => metric.endsWith(':*')).map(metric => metric.slice(0, -1))
+
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT metric, day, value FROM metric_snapshots
+      WHERE day BETWEEN ? AND ?
+        AND (metric IN (SELECT value FROM json_each(?))
+          OR EXISTS (SELECT 1 FROM json_each(?) p WHERE substr(metric, 1, length(p.value)) = p.value))
+      ORDER BY metric, day
+    `).bind(from, to, JSON.stringify(exact), JSON.stringify(prefixes)).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    const series: Record<string, MetricPoint[]> = {}
+    for (const metric of exact) series[metric] = []
+    for (const row of rows) {
+      (series[row.metric] ||= []).push({ day: row.day, value: row.value })
+    }
+
+    return { from, to, metrics: series }
+  }
+
+  // Every metric name recorded so far
+  async listMetrics(env: any): Promise<string[]> {
+    const result = await env.FEEDBACK_DB.prepare('SELECT DISTINCT metric FROM metric_snapshots ORDER BY metric').all()
+    return (result.results || []).map((row: any) => row.metric)
+  }
+
+  private async computeMetrics(env: any): Promise<Record<string, number>> {
+    const [totals, sources, categories, layerHealth] = await Promise.all([
+      env.FEEDBACK_DB.prepare(`
+        SELECT
+          COUNT(*) AS total,
+          COUNT(DISTINCT COALESCE(f.cluster_id, f.id)) AS unique_issues,
+          COALESCE(SUM(e.critical), 0) AS critical,
+          COALESCE(SUM(e.critical = 1 AND COALESCE(t.status, 'new') NOT IN (SELECT value FROM json_each(?))), 0) AS open_critical,
+          COALESCE(SUM(e.feature_request), 0) AS feature_requests,
+          ${WEIGHTED_SENTIMENT} AS sentiment
+        FROM feedback f
+        LEFT JOIN feedback_enrichment e ON e.feedback_id = f.id
+        LEFT JOIN feedback_triage t ON t.feedback_id = f.id
+      `).bind(JSON.stringify(CLOSED_STATUSES)).first(),
+      env.FEEDBACK_DB.prepare(`
+        SELECT source_type AS name, COUNT(*) AS count FROM feedback GROUP BY source_type
+      `).all(),
+      env.FEEDBACK_DB.prepare(`
+        SELECT c.value AS name, COUNT(*) AS count
+        FROM feedback_enrichment e, json_each(e.categories) c
+        GROUP BY c.value
+        ORDER BY count DESC, name
+        LIMIT ?
+      `).bind(MAX_CATEGORY_METRICS).all(),
+      this.networkVisualizer.getLayerHealth(env)
+    ])
+    this.freeTierManager.recordD1RowsRead(totals?.total || 0)
+
+    const metrics: Record<string, number> = {
+      total: totals?.total || 0,
+      unique_issues: totals?.unique_issues || 0,
+      critical: totals?.critical || 0,
+      open_critical: totals?.open_critical || 0,
+      feature_requests: totals?.feature_requests || 0,
+      // -1 (all negative) to 1 (all positive), each item weighted by its score's confidence
+      sentiment: Math.round((totals?.sentiment || 0) * 1000) / 1000,
+      health_score: layerHealth.healthScore
+    }
+    for (const row of sources.results || []) metrics[`source:${row.name}`] = row.count
+    for (const row of categories.results || []) metrics[`category:${row.name}`] = row.count
+    for (const layer of layerHealth.layers) metrics[layerMetric(layer.name)] = layer.issueCount
+
+    return metrics
+  }
+}
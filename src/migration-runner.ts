@@ -0,0 +1,177 @@
+import { FeedbackAggregator } from './feedback-aggregator'
+import m0001 from '../migrations/0001_create_feedback_table.sql'
+import m0002 from '../migrations/0002_add_feedback_source_index.sql'
+import m0003 from '../migrations/0003_create_connector_state.sql'
+import m0004 from '../migrations/0004_create_form_rate_limits.sql'
+import m0005 from '../migrations/0005_create_feedback_messages.sql'
+import m0006 from '../migrations/0006_add_feedback_cluster_id.sql'
+import m0007 from '../migrations/0007_create_feedback_enrichment.sql'
+import m0008 from '../migrations/0008_create_feedback_fts.sql'
+import m0009 from '../migrations/0009_create_feedback_triage.sql'
+import m0010 from '../migrations/0010_add_pii_redaction.sql'
+import m0011 from '../migrations/0011_create_accounts.sql'
+import m0012 from '../migrations/0012_create_metric_snapshots.sql'
+import m0013 from '../migrations/0013_create_audit_log.sql'
+import m0014 from '../migrations/0014_create_taxonomy.sql'
+import m0015 from '../migrations/0015_add_severity_breakdown.sql'
+import m0016 from '../migrations/0016_create_feedback_embeddings.sql'
+import m0017 from '../migrations/0017_add_sentiment_scores.sql'
+
+export interface Migration {
+  version: number
+  name: string
+  sql: string
+}
+
+export interface MigrationStatus {
+  version: number
+  name: string
+  applied_at: string | null
+}
+
+// Every file in migrations/, in order. scripts/migrate.mjs reads the same directory, so
+// adding a file there and importing it here is all a new migration needs.
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: '0001_create_feedback_table', sql: m0001 },
+  { version: 2, name: '0002_add_feedback_source_index', sql: m0002 },
+  { version: 3, name: '0003_create_connector_state', sql: m0003 },
+  { version: 4, name: '0004_create_form_rate_limits', sql: m0004 },
+  { version: 5, name: '0005_create_feedback_messages', sql: m0005 },
+  { version: 6, name: '0006_add_feedback_cluster_id', sql: m0006 },
+  { version: 7, name: '0007_create_feedback_enrichment', sql: m0007 },
+  { version: 8, name: '0008_create_feedback_fts', sql: m0008 },
+  { version: 9, name: '0009_create_feedback_triage', sql: m0009 },
+  { version: 10, name: '0010_add_pii_redaction', sql: m0010 },
+  { version: 11, name: '0011_create_accounts', sql: m0011 },
+  { version: 12, name: '0012_create_metric_snapshots', sql: m0012 },
+  { version: 13, name: '0013_create_audit_log', sql: m0013 },
+  { version: 14, name: '0014_create_taxonomy', sql: m0014 },
+  { version: 15, name: '0015_add_severity_breakdown', sql: m0015 },
+  { version: 16, name: '0016_create_feedback_embeddings', sql: m0016 },
+  { version: 17, name: '0017_add_sentiment_scores', sql: m0017 }
+]
+
+const CREATE_SCHEMA_MIGRATIONS = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TEXT NOT NULL
+  )
+`
+
+// Split a migration file into statements for D1's batch API: drops `--` comments and keeps
+// CREATE TRIGGER ... BEGIN ... END bodies together
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = []
+  let current = ''
+  let quote: string | null = null
+  let blockDepth = 0
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i]
+
+    if (quote) {
+      current += char
+      if (char === quote) quote = null
+      continue
+    }
+    if (char === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++
+      current += '\n'
+      continue
+    }
+    if (char === "'" || char === '"') {
+      quote = char
+      current += char
+      continue
+    }
+
+    if (/[A-Za-z]/.test(char) && !/[A-Za-z0-9_]/.test(sql[i - 1] || '')) {
+      const word = sql.slice(i).match(/^[A-Za-z_]+/)![0].toUpperCase()
+      // CASE ... END nests inside trigger bodies, so track it too
+      if (word === 'BEGIN' || word === 'CASE') blockDepth++
+      if (word === 'END' && blockDepth > 0) blockDepth--
+    }
+
+    if (char === ';' && blockDepth === 0) {
+      if (current.trim()) statements.push(current.trim())
+      current = ''
+      continue
+    }
+    current += char
+  }
+
+  if (current.trim()) statements.push(current.trim())
+  return statements
+}
+
+// Applies pending migrations to D1 and records them in schema_migrations. Each migration runs
+// as one D1 batch, so it either applies completely or not at all.
+export class MigrationRunner {
+  constructor(private migrations: Migration[] = MIGRATIONS) {}
+
+  async getStatus(env: any): Promise<MigrationStatus[]> {
+    const applied = await this.getApplied(env)
+
+    return this.migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied_at: applied.get(migration.version) ?? null
+    }))
+  }
+
+  async migrate(env: any): Promise<MigrationStatus[]> {
+    const applied = await this.getApplied(env)
+    const ran: MigrationStatus[] = []
+
+    for (const migration of this.migrations) {
+      if (applied.has(migration.version)) continue
+
+      const appliedAt = new Date().toISOString()
+      const statements = splitStatements(migration.sql).map(sql => env.FEEDBACK_DB.prepare(sql))
+      statements.push(env.FEEDBACK_DB.prepare(
+        'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)'
+      ).bind(migration.version, migration.name, appliedAt))
+
+      try {
+        await env.FEEDBACK_DB.batch(statements)
+      } catch (error: unknown) {
+        throw new Error(`Migration ${migration.name} failed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+
+      console.log(`Applied migration ${migration.name}`)
+      ran.push({ version: migration.version, name: migration.name, applied_at: appliedAt })
+    }
+
+    // Schema changes can change what the cached views contain
+    if (ran.length > 0) await new FeedbackAggregator().invalidateCaches(env)
+
+    return ran
+  }
+
+  private async getApplied(env: any): Promise<Map<number, string>> {
+    await env.FEEDBACK_DB.prepare(CREATE_SCHEMA_MIGRATIONS).run()
+    await this.baselineExistingDatabase(env)
+
+    const result = await env.FEEDBACK_DB.prepare('SELECT version, applied_at FROM schema_migrations').all()
+    return new Map((result.results || []).map((row: any) => [row.version, row.applied_at]))
+  }
+
+  // Databases set up before schema_migrations existed already ran 0001 (which isn't
+  // re-runnable); record it so the runner starts from 0002. Only 0001 is assumed: the
+  // ALTER TABLE ... ADD COLUMN files (0006, 0010, 0014, 0015, 0017) fail if run twice, so a
+  // database that had any of those applied by hand needs them inserted into schema_migrations.
+  private async baselineExistingDatabase(env: any): Promise<void> {
+    const tracked = await env.FEEDBACK_DB.prepare('SELECT COUNT(*) AS count FROM schema_migrations').first()
+    if (tracked.count > 0) return
+
+    const feedbackTable = await env.FEEDBACK_DB.prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'feedback'"
+    ).first()
+    if (!feedbackTable) return
+
+    await env.FEEDBACK_DB.prepare(
+      'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)'
+    ).bind(this.migrations[0].version, this.migrations[0].name, new Date().toISOString()).run()
+  }
+}
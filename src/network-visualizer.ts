@@ -1,3 +1,6 @@
+import { conservativeCache } from './free-tier-optimizations'
+import { conversationText, detectLayers } from './feedback-enrichment'
+
 interface NetworkLayer {
   name: string
   status: 'healthy' | 'warning' | 'critical'
@@ -18,17 +21,17 @@ export class NetworkVisualizer {
 
   async generateVisualization(env: any): Promise<NetworkVisualization> {
     // Check cache first
-    const cacheKey = 'network:visualization:v2' // Updated cache key to force refresh
+    const cacheKey = conservativeCache.keyPatterns.visualization
     const cached = await env.CACHE.get(cacheKey)
     if (cached) {
       return JSON.parse(cached)
     }
 
-    // Get feedback data
-    const feedback = await this.getNetworkFeedback(env)
+    // Count network-related feedback per OSI layer
+    const layerCounts = await this.getLayerCounts(env)
 
     // Analyze network layers
-    const layers = await this.analyzeNetworkLayers(feedback, env)
+    const layers = this.analyzeNetworkLayers(layerCounts)
 
     // Generate visualization data
     const visualization = this.createVisualizationData(layers)
@@ -39,31 +42,44 @@ export class NetworkVisualizer {
     return visualization
   }
 
-  private async getNetworkFeedback(env: any): Promise<any[]> {
+  // Per-layer issue counts and the health score, uncached (for the daily metric snapshots)
+  async getLayerHealth(env: any): Promise<{ layers: NetworkLayer[], healthScore: number }> {
+    const layers = this.analyzeNetworkLayers(await this.getLayerCounts(env))
+    return { layers, healthScore: this.calculateHealthScore(layers) }
+  }
+
+  // Layer matches are stored per item in feedback_enrichment at ingest. Network-related items
+  // are found through the full-text index (or a network label) rather than LIKE scans.
+  private async getLayerCounts(env: any): Promise<Record<string, number>> {
     try {
-      // Get network-related feedback from D1
       const result = await env.FEEDBACK_DB.prepare(`
-        SELECT * FROM feedback
-        WHERE content LIKE '%network%' OR content LIKE '%connectivity%' OR content LIKE '%interface%'
-        OR metadata LIKE '%network%' OR metadata LIKE '%interface%'
-        ORDER BY created_at DESC
+        SELECT l.value AS layer, COUNT(*) AS count
+        FROM feedback f
+        JOIN feedback_enrichment e ON e.feedback_id = f.id, json_each(e.layers) l
+        WHERE f.rowid IN (SELECT rowid FROM feedback_fts WHERE feedback_fts MATCH 'network OR connectivity OR interface')
+        OR EXISTS (SELECT 1 FROM json_each(f.metadata, '$.labels') label WHERE label.value LIKE '%network%')
+        GROUP BY l.value
       `).all()
 
-      return result.results || []
+      return Object.fromEntries((result.results || []).map((row: any) => [row.layer, row.count]))
     } catch (error) {
-      // Fallback: filter from aggregated feedback
+      // Fallback: enrich the aggregated feedback in memory
       const aggregator = (await import('./feedback-aggregator')).FeedbackAggregator
       const allFeedback = await new aggregator().aggregateAllFeedback(env)
-      return allFeedback.filter(f =>
-        f.content.toLowerCase().includes('network') ||
-        f.content.toLowerCase().includes('connectivity') ||
-        f.content.toLowerCase().includes('interface') ||
-        f.metadata.labels?.some((label: string) => label.includes('network'))
-      )
+      const counts: Record<string, number> = {}
+      allFeedback
+        .filter(f =>
+          f.content.toLowerCase().includes('network') ||
+          f.content.toLowerCase().includes('connectivity') ||
+          f.content.toLowerCase().includes('interface') ||
+          f.metadata.labels?.some((label: string) => label.includes('network'))
+        )
+        .forEach(f => detectLayers(conversationText(f)).forEach(layer => { counts[layer] = (counts[layer] || 0) + 1 }))
+      return counts
     }
   }
 
-  private async analyzeNetworkLayers(feedback: any[], env: any): Promise<NetworkLayer[]> {
+  private analyzeNetworkLayers(layerCounts: Record<string, number>): NetworkLayer[] {
     const layers: Record<string, NetworkLayer> = {
       'Physical Layer': { name: 'Physical Layer', status: 'healthy', issueCount: 0, description: 'Cabling, connectors, signal transmission' },
       'Data Link Layer': { name: 'Data Link Layer', status: 'healthy', issueCount: 0, description: 'MAC addresses, switches, VLANs' },
@@ -74,47 +90,8 @@ export class NetworkVisualizer {
       'Application Layer': { name: 'Application Layer', status: 'healthy', issueCount: 0, description: 'HTTP, DNS, monitoring protocols' }
     }
 
-    // Analyze feedback for each layer
-    feedback.forEach(item => {
-      const content = (item.content || item.title || '').toLowerCase()
-      const metadata = typeof item.metadata === 'string' ? JSON.parse(item.metadata) : item.metadata
-
-      // Physical Layer issues
-      if (content.includes('cable') || content.includes('connector') || content.includes('fiber') ||
-          content.includes('physical') || content.includes('hardware')) {
-        layers['Physical Layer'].issueCount++
-      }
-
-      // Data Link Layer issues
-      if (content.includes('mac') || content.includes('switch') || content.includes('vlan') ||
-          content.includes('bridge') || content.includes('ethernet')) {
-        layers['Data Link Layer'].issueCount++
-      }
-
-      // Network Layer issues
-      if (content.includes('ip') || content.includes('routing') || content.includes('subnet') ||
-          content.includes('arp') || content.includes('icmp') || content.includes('ipv6')) {
-        layers['Network Layer'].issueCount++
-      }
-
-      // Transport Layer issues
-      if (content.includes('tcp') || content.includes('udp') || content.includes('port') ||
-          content.includes('qos') || content.includes('congestion')) {
-        layers['Transport Layer'].issueCount++
-      }
-
-      // Application Layer issues
-      if (content.includes('http') || content.includes('dns') || content.includes('snmp') ||
-          content.includes('monitoring') || content.includes('prometheus')) {
-        layers['Application Layer'].issueCount++
-      }
-
-      // Security issues affect multiple layers
-      if (content.includes('security') || content.includes('vulnerability') ||
-          content.includes('injection') || content.includes('attack')) {
-        layers['Session Layer'].issueCount++
-        layers['Presentation Layer'].issueCount++
-      }
+    Object.values(layers).forEach(layer => {
+      layer.issueCount = layerCounts[layer.name] || 0
     })
 
     // Determine status based on issue count
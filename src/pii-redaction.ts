@@ -0,0 +1,123 @@
+import type { FeedbackItem } from './feedback-aggregator'
+import { normalizeThread } from './source-normalizers'
+
+export type PiiType = 'email' | 'phone' | 'ip' | 'name'
+
+// What each kind of PII is replaced with in redacted text
+export const PII_PLACEHOLDERS: Record<PiiType, string> = {
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  ip: '[IP]',
+  name: '[NAME]'
+}
+
+// metadata keys holding people's addresses or names; never sent to the model, dropped on anonymization
+export const PII_METADATA_KEYS = ['author_email', 'from', 'to', 'cc', 'assignee']
+
+const THREAD_KEYS = ['comments', 'replies']
+
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu
+
+// Dotted quads only (optionally with a prefix length); a fifth part means a version number
+const IPV4_PATTERN = /(?<![\w.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?:\/\d{1,2})?(?!\w|\.\d)/g
+
+// Candidates are checked in redactText: times like 10:30:45 look the same
+const IPV6_PATTERN = /(?<![\w:])(?:[0-9a-f]{0,4}:){2,7}[0-9a-f]{0,4}(?:\/\d{1,3})?(?![\w:])/gi
+
+// +44 20 7946 0958, (555) 123-4567, 555.123.4567
+const PHONE_PATTERN = /(?<![\w+])(?:\+\d[\d\s().-]{7,}\d|(?:\(\d{2,4}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4})(?!\w)/g
+
+// A name on the line after (or right after) a sign-off: "Thanks,\nSarah Johnson\nIT Manager"
+const SIGN_OFF_PATTERN = /\b((?:[Bb]est |[Kk]ind |[Ww]arm )?[Rr]egards|[Tt]hanks|[Tt]hank you|[Bb]est|[Cc]heers|[Ss]incerely)(,[ \t]*\n?[ \t]*|[ \t]*\n[ \t]*)((?:(?:Mr|Mrs|Ms|Dr)\.?[ \t]+)?[A-Z][\p{L}'’-]+(?:[ \t]+[A-Z][\p{L}'’.-]+){0,2})(?=[ \t]*(?:,|\n|$))/gu
+
+// "Hi John," / "Dear Ms. Park,"
+const GREETING_PATTERN = /\b([Hh]i|[Hh]ello|[Hh]ey|[Dd]ear)([ \t]+(?:(?:Mr|Mrs|Ms|Dr)\.?[ \t]+)?)([A-Z][\p{L}'’-]+(?:[ \t]+[A-Z][\p{L}'’-]+)?)(?=[ \t]*[,!\n])/gu
+const NOT_NAMES = ['team', 'all', 'everyone', 'there', 'folks', 'support', 'guys']
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Mask PII in free text. `names` are people known to be involved (author, thread authors),
+// masked wherever they appear in full. Returns the text and the kinds of PII found.
+export function redactText(text: string, names: string[] = []): { text: string, found: PiiType[] } {
+  const found = new Set<PiiType>()
+  const mask = (type: PiiType) => {
+    found.add(type)
+    return PII_PLACEHOLDERS[type]
+  }
+
+  let result = text
+    .replace(EMAIL_PATTERN, () => mask('email'))
+    .replace(IPV4_PATTERN, () => mask('ip'))
+    .replace(IPV6_PATTERN, match => match.includes('::') || match.split(':').length === 8 ? mask('ip') : match)
+    .replace(PHONE_PATTERN, () => mask('phone'))
+
+  for (const name of names) {
+    // Handles and one-word names ("admin", "Sarah") are too likely to be ordinary words
+    if (!/\S\s+\S/.test(name)) continue
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name.trim()).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'giu')
+    result = result.replace(pattern, () => mask('name'))
+  }
+
+  result = result
+    .replace(SIGN_OFF_PATTERN, (_match, signOff, separator) => `${signOff}${separator}${mask('name')}`)
+    .replace(GREETING_PATTERN, (match, greeting, title, name) =>
+      NOT_NAMES.includes(name.toLowerCase()) ? match : `${greeting}${title}${mask('name')}`)
+
+  return { text: result, found: [...found] }
+}
+
+// People involved in an item, for redactText
+function knownNames(feedback: FeedbackItem): string[] {
+  const thread = THREAD_KEYS.flatMap(key => normalizeThread(feedback.metadata?.[key]))
+  return [...new Set([feedback.author, ...thread.map(entry => entry.author)].filter(Boolean))]
+}
+
+// The prompt-safe copy stored with the enrichment: title, and the body followed by every
+// comment/reply, all redacted
+export function redactFeedback(feedback: FeedbackItem): { title: string, content: string, found: PiiType[] } {
+  const names = knownNames(feedback)
+  const thread = THREAD_KEYS.flatMap(key => normalizeThread(feedback.metadata?.[key]))
+  const title = redactText(feedback.title, names)
+  const content = redactText([feedback.content, ...thread.map(entry => entry.content)].join('\n'), names)
+
+  return {
+    title: title.text,
+    content: content.text,
+    found: [...new Set([...title.found, ...content.found])]
+  }
+}
+
+// An item as the model may see it: the redacted title and conversation (threads are already
+// folded into content), no author and no personal metadata
+export function promptCopy(feedback: FeedbackItem, redacted: { title: string, content: string } = redactFeedback(feedback)): FeedbackItem {
+  const metadata = { ...(feedback.metadata || {}) }
+  for (const key of [...PII_METADATA_KEYS, ...THREAD_KEYS]) delete metadata[key]
+
+  return { ...feedback, title: redacted.title, content: redacted.content, author: 'redacted', metadata }
+}
+
+// What the retention job keeps of an old item: redacted text, no author names or personal metadata
+export function anonymizeFeedback(feedback: FeedbackItem): FeedbackItem {
+  const names = knownNames(feedback)
+  const metadata = { ...(feedback.metadata || {}) }
+  for (const key of PII_METADATA_KEYS) delete metadata[key]
+  for (const key of THREAD_KEYS) {
+    if (metadata[key] === undefined) continue
+    metadata[key] = normalizeThread(metadata[key]).map(entry => ({
+      ...entry,
+      author: 'anonymized',
+      content: redactText(entry.content, names).text
+    }))
+  }
+  if (typeof metadata.subject === 'string') metadata.subject = redactText(metadata.subject, names).text
+
+  return {
+    ...feedback,
+    title: redactText(feedback.title, names).text,
+    content: redactText(feedback.content, names).text,
+    author: 'anonymized',
+    metadata
+  }
+}
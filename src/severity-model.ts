@@ -0,0 +1,175 @@
+import type { FeedbackItem } from './feedback-aggregator'
+import { sha256Hex } from './crypto-utils'
+import { keywordPattern } from './taxonomy'
+
+// Points per matching term. Keys are matched case-insensitively; a weight of 0 turns a default off.
+export interface SeverityWeights {
+  // The item's labels
+  labels: Record<string, number>
+  // Values of the source's own priority and severity fields (P0, Critical, High...)
+  priority: Record<string, number>
+  // Whole words or phrases anywhere in the conversation. A term may list alternatives separated
+  // by `|` ("security|vulnerability"), which count once between them.
+  keywords: Record<string, number>
+  sources: Record<string, number>
+  // Authors, slugged: "Security Researcher" -> security-researcher
+  reporters: Record<string, number>
+  // Added to items created within the last `days` days
+  recency: { days: number, points: number }
+}
+
+export interface SeverityModel {
+  weights: SeverityWeights
+  // Fingerprint of the weights, stored with each enrichment row so a change re-scores
+  version: string
+}
+
+export type SeverityFactorKind = 'label' | 'priority' | 'severity' | 'keyword' | 'source' | 'reporter' | 'recency'
+
+export interface SeverityFactor {
+  factor: SeverityFactorKind
+  name: string
+  points: number
+}
+
+export interface SeverityScore {
+  // 1-5: one plus every factor's points, clamped
+  severity: number
+  breakdown: SeverityFactor[]
+}
+
+export const MIN_SEVERITY = 1
+export const MAX_SEVERITY = 5
+
+export const DEFAULT_SEVERITY_WEIGHTS: SeverityWeights = {
+  labels: { critical: 3, blocking: 2, high: 1 },
+  priority: { critical: 2, p0: 2, high: 1, p1: 1 },
+  keywords: {
+    // A security problem, not any mention of security ("Windows security updates")
+    'vulnerability|vulnerabilities|exploit|injection|security issue|security concern|security flaw|security hole': 3,
+    'crash|crashes|crashed|crashing': 2,
+    'data loss': 2,
+    blocking: 2
+  },
+  sources: { 'bug-report': 1 },
+  reporters: { 'security-researcher': 2 },
+  recency: { days: 7, points: 1 }
+}
+
+const WEIGHT_MAPS = ['labels', 'priority', 'keywords', 'sources', 'reporters'] as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let cached: { raw: string, model: SeverityModel } | null = null
+
+const keywordPatterns = new Map<string, RegExp[]>()
+
+function slug(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+// SEVERITY_WEIGHTS (JSON, any subset of SeverityWeights) over the defaults. Throws on anything
+// that isn't a map of finite numbers.
+export function parseSeverityWeights(raw: string | undefined): SeverityWeights {
+  if (!raw || !raw.trim()) return DEFAULT_SEVERITY_WEIGHTS
+
+  const custom = JSON.parse(raw)
+  if (typeof custom !== 'object' || custom === null || Array.isArray(custom)) {
+    throw new Error('SEVERITY_WEIGHTS must be a JSON object')
+  }
+
+  const weights = { ...DEFAULT_SEVERITY_WEIGHTS }
+  for (const key of WEIGHT_MAPS) {
+    if (custom[key] === undefined) continue
+    if (typeof custom[key] !== 'object' || custom[key] === null || Array.isArray(custom[key])) {
+      throw new Error(`SEVERITY_WEIGHTS.${key} must be an object of term -> points`)
+    }
+    const merged = { ...weights[key] }
+    for (const [term, points] of Object.entries(custom[key])) {
+      if (typeof points !== 'number' || !Number.isFinite(points)) {
+        throw new Error(`SEVERITY_WEIGHTS.${key}.${term} must be a number`)
+      }
+      merged[key === 'reporters' ? slug(term) : term.toLowerCase()] = points
+    }
+    weights[key] = merged
+  }
+  if (custom.recency !== undefined) {
+    const recency = { ...weights.recency, ...custom.recency }
+    if (!Number.isFinite(recency.days) || recency.days < 0 || !Number.isFinite(recency.points)) {
+      throw new Error('SEVERITY_WEIGHTS.recency must be { "days": >= 0, "points": number }')
+    }
+    weights.recency = { days: recency.days, points: recency.points }
+  }
+
+  return weights
+}
+
+// The model from SEVERITY_WEIGHTS; an invalid value is logged and the defaults are used
+export async function loadSeverityModel(env: any): Promise<SeverityModel> {
+  const raw = env.SEVERITY_WEIGHTS || ''
+  if (cached && cached.raw === raw) return cached.model
+
+  let weights = DEFAULT_SEVERITY_WEIGHTS
+  try {
+    weights = parseSeverityWeights(raw)
+  } catch (error: unknown) {
+    console.error('Invalid SEVERITY_WEIGHTS, using the defaults:', error instanceof Error ? error.message : String(error))
+  }
+
+  const model = { weights, version: (await sha256Hex(JSON.stringify(weights))).slice(0, 16) }
+  cached = { raw, model }
+  return model
+}
+
+// The first alternative of a keyword term found in the text
+function matchKeyword(term: string, text: string): string | undefined {
+  let patterns = keywordPatterns.get(term)
+  if (!patterns) {
+    patterns = term.split('|').map(alternative => alternative.trim()).filter(Boolean).map(keywordPattern)
+    keywordPatterns.set(term, patterns)
+  }
+  const match = patterns.map(pattern => text.match(pattern)).find(Boolean)
+  return match?.[0]
+}
+
+// Every factor that applies to the item, each counted once; `text` is the lowercased conversation
+export function scoreSeverity(feedback: FeedbackItem, text: string, model: SeverityModel, now: number = Date.now()): SeverityScore {
+  const { weights } = model
+  const breakdown: SeverityFactor[] = []
+  const add = (factor: SeverityFactorKind, name: string, points: number | undefined) => {
+    if (points) breakdown.push({ factor, name, points })
+  }
+
+  const labels: string[] = (feedback.metadata?.labels || []).map((label: any) => String(label))
+  for (const label of new Set(labels)) add('label', label, weights.labels[label.toLowerCase()])
+
+  for (const field of ['priority', 'severity'] as const) {
+    const value = feedback.metadata?.[field]
+    if (typeof value === 'string') add(field, value, weights.priority[value.trim().toLowerCase()])
+  }
+
+  for (const [term, points] of Object.entries(weights.keywords)) {
+    const matched = points ? matchKeyword(term, text) : undefined
+    if (matched) add('keyword', matched, points)
+  }
+
+  add('source', feedback.source_type, weights.sources[feedback.source_type])
+  if (feedback.author) add('reporter', slug(feedback.author), weights.reporters[slug(feedback.author)])
+
+  const age = now - Date.parse(feedback.created_at)
+  if (weights.recency.days > 0 && age >= 0 && age < weights.recency.days * DAY_MS) {
+    add('recency', `${weights.recency.days} days`, weights.recency.points)
+  }
+
+  const total = breakdown.reduce((sum, factor) => sum + factor.points, MIN_SEVERITY)
+  return { severity: Math.min(Math.max(total, MIN_SEVERITY), MAX_SEVERITY), breakdown }
+}
+
+// "critical label +3, P0 priority +2, bug-report source +1"
+export function describeSeverity(breakdown: SeverityFactor[]): string {
+  if (breakdown.length === 0) return 'no severity factors'
+  return breakdown.map(({ factor, name, points }) => {
+    const signed = points > 0 ? `+${points}` : String(points)
+    return factor === 'recency' ? `reported in the last ${name} ${signed}` : `${name} ${factor} ${signed}`
+  }).join(', ')
+}
@@ -1,25 +1,42 @@
-import { FeedbackAggregator } from './feedback-aggregator'
+import { CriticalIssue, FeedbackAggregator, FeedbackDetail } from './feedback-aggregator'
 import { NetworkVisualizer } from './network-visualizer'
+import { SlackIngestion } from './slack-ingestion'
+import { FeedbackSearch, SearchResult } from './feedback-search'
+import { parseFeedbackFilters } from './feedback-query'
+import { redactText } from './pii-redaction'
+import { AccountManager, AccountRollup } from './account-manager'
+import { Anomaly } from './anomaly-detector'
+import { describeSeverity } from './severity-model'
+import { hmacSha256Hex, timingSafeEqual } from './crypto-utils'
+import { FeedbackTriage, TRIAGE_STATUS_LABELS, TRIAGE_TRANSITIONS, TriageChange, TriageStatus, normalizeTriageStatus } from './feedback-triage'
+
+// Older request timestamps are rejected, so a captured request can't be replayed
+const SIGNATURE_MAX_AGE_SECONDS = 5 * 60
+
+// "what is MegaCorp complaining about?", "feedback from Acme" -> the account name
+const ACCOUNT_QUESTIONS = [
+  /what(?: is|'s| are) (.+?) (?:complaining|unhappy|upset|frustrated) (?:about|with)/,
+  /(?:complaints|feedback|issues) from (.+?)[?.!]*$/
+]
 
 export class SlackBot {
   private feedbackAggregator = new FeedbackAggregator()
   private networkVisualizer = new NetworkVisualizer()
+  private slackIngestion = new SlackIngestion()
+  private feedbackSearch = new FeedbackSearch()
+  private feedbackTriage = new FeedbackTriage()
+  private accountManager = new AccountManager()
 
-  verifyRequest(body: any, signature: string | undefined, timestamp: string | undefined, signingSecret: string): boolean {
-    if (!signature || !timestamp) return false
-
-    // In production, implement proper Slack signature verification
-    // For now, we'll skip this for the demo
-    return true
-
-    // Proper implementation would be:
-    // const bodyString = typeof body === 'string' ? body : JSON.stringify(body)
-    // const sigBaseString = `v0:${timestamp}:${bodyString}`
-    // const expectedSignature = crypto
-    //   .createHmac('sha256', signingSecret)
-    //   .update(sigBaseString, 'utf8')
-    //   .digest('hex')
-    // return `v0=${expectedSignature}` === signature
+  // Slack signs every request as `X-Slack-Signature: v0=<hex>`, an HMAC of
+  // `v0:<X-Slack-Request-Timestamp>:<raw body>` with the app's signing secret
+  async verifyRequest(rawBody: string, signature: string | undefined, timestamp: string | undefined, signingSecret: string, now: number = Date.now()): Promise<boolean> {
+    if (!signature || !timestamp || !signingSecret || !signature.startsWith('v0=')) return false
+
+    const seconds = Number(timestamp)
+    if (!Number.isInteger(seconds) || Math.abs(now / 1000 - seconds) > SIGNATURE_MAX_AGE_SECONDS) return false
+
+    const expected = `v0=${await hmacSha256Hex(signingSecret, `v0:${timestamp}:${rawBody}`)}`
+    return timingSafeEqual(expected, signature)
   }
 
   async handleEvent(event: any, env: any): Promise<any> {
@@ -38,6 +55,11 @@ export class SlackBot {
       return await this.handleSlashCommand(event, env)
     }
 
+    // Handle button clicks (triage cards)
+    if (event.type === 'block_actions') {
+      return await this.handleBlockActions(event, env)
+    }
+
     return { ok: true }
   }
 
@@ -49,6 +71,13 @@ export class SlackBot {
     // Ignore messages from the bot itself
     if (event.user === env.SLACK_BOT_USER_ID) return { ok: true }
 
+    // Report channels are captured silently; the bot only answers there when mentioned
+    if (event.type !== 'app_mention' && this.slackIngestion.isReportChannel(channel, env)) {
+      const result = await this.slackIngestion.handleMessageEvent(event, env)
+      console.log('Captured Slack feedback:', result)
+      return { ok: true }
+    }
+
     // Get or create user session
     const sessionId = `slack_${userId}`
     const sessionManagerId = env.SESSION_MANAGER.idFromName(sessionId)
@@ -63,10 +92,19 @@ export class SlackBot {
     return { ok: true }
   }
 
-  private async handleConversationalChat(text: string, userId: string, sessionManager: any, env: any): Promise<string> {
+  // Shared conversational core; other chat adapters (e.g. Teams) reuse it and reformat the mrkdwn
+  async handleConversationalChat(text: string, userId: string, sessionManager: any, env: any): Promise<string> {
     const cleanText = text.replace(/<@[A-Z0-9]+>/g, '').trim().toLowerCase()
     console.log('Processing conversational chat:', { userId, cleanText })
 
+    // Questions about one customer account; unknown names fall through to the general answers
+    const accountName = ACCOUNT_QUESTIONS.map(pattern => cleanText.match(pattern)?.[1]).find(Boolean)
+    const account = accountName ? await this.accountManager.findAccount(accountName, env) : null
+    if (account) {
+      console.log('Detected account request:', account.id)
+      return this.formatAccountResponse((await this.accountManager.getRollup(account.id, env))!)
+    }
+
     // Handle keyword-based commands
     if (cleanText.includes('summary') || cleanText.includes('overview')) {
       console.log('Detected summary request')
@@ -107,13 +145,13 @@ export class SlackBot {
       let relevantData = ''
       if (queryAnalysis.intent === 'performance') {
         const insights = await this.feedbackAggregator.getInsights(env)
-        relevantData = `Performance-related feedback: ${insights.criticalIssues.filter(issue =>
-          issue.toLowerCase().includes('performance') || issue.toLowerCase().includes('slow') || issue.toLowerCase().includes('cpu')
+        relevantData = `Performance-related feedback: ${insights.criticalIssues.map(issue => issue.title).filter(title =>
+          title.toLowerCase().includes('performance') || title.toLowerCase().includes('slow') || title.toLowerCase().includes('cpu')
         ).join(', ')}`
       } else if (queryAnalysis.intent === 'security') {
         const insights = await this.feedbackAggregator.getInsights(env)
-        relevantData = `Security-related feedback: ${insights.criticalIssues.filter(issue =>
-          issue.toLowerCase().includes('security') || issue.toLowerCase().includes('vulnerability')
+        relevantData = `Security-related feedback: ${insights.criticalIssues.map(issue => issue.title).filter(title =>
+          title.toLowerCase().includes('security') || title.toLowerCase().includes('vulnerability')
         ).join(', ')}`
       } else if (queryAnalysis.intent === 'features') {
         const insights = await this.feedbackAggregator.getInsights(env)
@@ -138,7 +176,8 @@ Provide a helpful, concise response that addresses their question using the feed
       const aiResponse = await env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
         messages: [
           { role: 'system', content: 'You are a network infrastructure feedback expert. Provide concise, helpful responses based on the provided data.' },
-          { role: 'user', content: prompt }
+          // The question and earlier turns may quote addresses or names
+          { role: 'user', content: redactText(prompt).text }
         ],
         max_tokens: 150
       })
@@ -212,8 +251,13 @@ Provide a helpful, concise response that addresses their question using the feed
         const visualization = await this.networkVisualizer.generateVisualization(env)
         response = this.formatVisualizationResponse(visualization)
         break
+      case '/feedback-search':
+        response = await this.searchFeedback(event.text || '', env)
+        break
+      case '/feedback-triage':
+        return await this.triageCommand(event.text || '', event.user_id, env)
       default:
-        response = 'Unknown command. Try `/feedback-summary`, `/network-insights`, or `/network-viz`'
+        response = 'Unknown command. Try `/feedback-summary`, `/network-insights`, `/network-viz`, `/feedback-search`, or `/feedback-triage`'
     }
 
     return {
@@ -222,16 +266,174 @@ Provide a helpful, concise response that addresses their question using the feed
     }
   }
 
+  // `/feedback-search snmp memory leak source:github from:2024-11-01` - filters are optional
+  private async searchFeedback(text: string, env: any): Promise<string> {
+    const query: Record<string, string> = {}
+    const keywords = text.split(/\s+/).filter(word => {
+      const filter = word.match(/^(source|from|to):(\S+)$/i)
+      if (filter) query[filter[1].toLowerCase() === 'source' ? 'source_type' : filter[1].toLowerCase()] = filter[2]
+      return !filter
+    }).join(' ').trim()
+
+    if (!keywords) {
+      return 'Usage: `/feedback-search <keywords> [source:<type>] [from:<date>] [to:<date>]`'
+    }
+
+    const results = await this.feedbackSearch.search(keywords, parseFeedbackFilters(query), env, { limit: 5, highlight: ['*', '*'] })
+    return this.formatSearchResponse(keywords, results)
+  }
+
+  // `/feedback-triage <id>` shows the item with status buttons; `/feedback-triage <id> <status> [notes]`
+  // or `/feedback-triage <id> assign <@user>` changes it directly
+  private async triageCommand(text: string, userId: string, env: any): Promise<any> {
+    const [id, action, ...rest] = text.trim().split(/\s+/)
+    if (!id) {
+      return { response_type: 'ephemeral', text: 'Usage: `/feedback-triage <id> [acknowledged|in-progress|resolved|wont-fix [notes] | assign <@user>]`' }
+    }
+
+    if (action) {
+      const change: TriageChange = action.toLowerCase() === 'assign'
+        ? { assignee: rest.join(' ') || `<@${userId}>` }
+        : { status: action, ...(rest.length > 0 ? { resolution: rest.join(' ') } : {}) }
+      const result = await this.applyTriage(id, change, userId, env)
+      if (result) return { response_type: 'ephemeral', text: result }
+    }
+
+    return { response_type: 'in_channel', ...(await this.buildTriageMessage(id, env)) }
+  }
+
+  // Buttons on a triage card: `triage_<status>` or `triage_assign_me`, with the item id as value
+  private async handleBlockActions(payload: any, env: any): Promise<any> {
+    const action = payload.actions?.[0]
+    if (!action?.action_id?.startsWith('triage_')) return { ok: true }
+
+    const userId = payload.user?.id
+    const change: TriageChange = action.action_id === 'triage_assign_me'
+      ? { assignee: `<@${userId}>` }
+      : { status: action.action_id.slice('triage_'.length) }
+    const error = await this.applyTriage(action.value, change, userId, env)
+
+    const message = error
+      ? { response_type: 'ephemeral', replace_original: false, text: error }
+      : { replace_original: true, ...(await this.buildTriageMessage(action.value, env)) }
+    if (payload.response_url) await this.respond(payload.response_url, message)
+
+    return { ok: true }
+  }
+
+  // Returns an error message, or null once the change is stored
+  private async applyTriage(id: string, change: TriageChange, userId: string, env: any): Promise<string | null> {
+    if (change.status !== undefined && !normalizeTriageStatus(change.status)) {
+      return `Unknown status \`${change.status}\`. Use one of: ${Object.keys(TRIAGE_TRANSITIONS).join(', ')}`
+    }
+
+    const result = await this.feedbackTriage.update(id, change, { actor: `slack:${userId}`, route: 'POST /slack/events' }, env)
+    if (result.status !== 'updated') return result.reason || 'Could not update triage'
+
+    await this.feedbackAggregator.invalidateCaches(env)
+    return null
+  }
+
+  private async buildTriageMessage(id: string, env: any): Promise<{ text: string, blocks?: any[] }> {
+    const item = await this.feedbackAggregator.getFeedbackDetail(id, env)
+    if (!item) return { text: `No feedback with id \`${id}\`` }
+
+    const text = this.formatTriageText(item)
+    const status = (item.triage.status || 'new') as TriageStatus
+    const buttons = TRIAGE_TRANSITIONS[status].map(next => ({
+      type: 'button',
+      text: { type: 'plain_text', text: TRIAGE_STATUS_LABELS[next] },
+      action_id: `triage_${next}`,
+      value: item.id,
+      ...(next === 'resolved' ? { style: 'primary' } : next === 'wont-fix' ? { style: 'danger' } : {})
+    }))
+    buttons.push({ type: 'button', text: { type: 'plain_text', text: 'Assign to me' }, action_id: 'triage_assign_me', value: item.id })
+
+    return {
+      text,
+      blocks: [
+        { type: 'section', text: { type: 'mrkdwn', text } },
+        { type: 'actions', elements: buttons }
+      ]
+    }
+  }
+
+  private formatTriageText(item: FeedbackDetail): string {
+    const status = (item.triage.status || 'new') as TriageStatus
+    let text = `*${item.title}*\n\`${item.id}\` · ${item.source_type} · ${item.created_at.split('T')[0]}\n`
+    text += `Status: *${TRIAGE_STATUS_LABELS[status]}*`
+    if (item.triage.assignee) text += ` · Assignee: ${item.triage.assignee}`
+    if (item.triage.resolution) text += `\nResolution: ${item.triage.resolution}`
+    if (item.triage.updated_by) {
+      // `slack:<user id>` (bare ids before the audit log) is shown as a mention; API keys as is
+      const slackUser = item.triage.updated_by.match(/^(?:slack:)?(U[A-Z0-9]+)$/)?.[1]
+      text += `\n_Last updated by ${slackUser ? `<@${slackUser}>` : item.triage.updated_by}_`
+    }
+    return text
+  }
+
+  private formatSearchResponse(keywords: string, results: SearchResult[]): string {
+    if (results.length === 0) {
+      return `🔎 No feedback found for "${keywords}"`
+    }
+
+    let response = `🔎 *Feedback matching "${keywords}"*\n\n`
+    results.forEach((result, index) => {
+      response += `${index + 1}. ${result.title_highlight} (${result.source_type}, ${result.created_at.split('T')[0]}) \`${result.id}\`\n`
+      response += `> ${result.snippet.replace(/\s+/g, ' ')}\n`
+    })
+    return response
+  }
+
   private formatSummaryResponse(summary: any): string {
     return `📊 *Feedback Summary*\n\n` +
-           `• Total feedback items: ${summary.totalItems}\n` +
+           `• Total feedback items: ${summary.totalItems} (${summary.uniqueIssues} unique issues)\n` +
            `• Sources: ${summary.sources.join(', ')}\n` +
            `• Date range: ${summary.dateRange}\n` +
            `• Top categories: ${summary.topCategories.join(', ')}\n\n` +
            `💡 *Key Metrics:*\n` +
            `• Average sentiment: ${summary.averageSentiment}\n` +
-           `• Critical issues: ${summary.criticalIssues}\n` +
-           `• Feature requests: ${summary.featureRequests}`
+           `• Critical issues: ${summary.criticalIssues} reports / ${summary.uniqueCriticalIssues} issues\n` +
+           `• Feature requests: ${summary.featureRequests} reports / ${summary.uniqueFeatureRequests} issues`
+  }
+
+  private formatAccountResponse(rollup: AccountRollup): string {
+    const { account } = rollup
+    const details = [account.tier, account.arr !== null ? `$${account.arr.toLocaleString('en-US')} ARR` : null].filter(Boolean)
+    let response = `🏢 *${account.name}*${details.length > 0 ? ` (${details.join(' · ')})` : ''}\n\n`
+
+    if (rollup.feedback_count === 0) {
+      return response + `No feedback from ${account.name} yet. Feedback is matched to the account by author and email domain (${[...account.authors, ...account.domains].join(', ') || 'no rules set'}).`
+    }
+
+    response += `📬 ${rollup.feedback_count} feedback items\n\n`
+
+    response += `🚨 *Open Critical Issues (${rollup.open_critical_issues.length}):*\n`
+    if (rollup.open_critical_issues.length > 0) {
+      rollup.open_critical_issues.slice(0, 5).forEach(issue => {
+        response += `• ${issue.title} (${issue.source_type}, severity ${issue.severity}/5, ${issue.status}) \`${issue.id}\`\n`
+      })
+    } else {
+      response += `• None open\n`
+    }
+
+    if (rollup.top_categories.length > 0) {
+      response += `\n🏷️ *What it's about:* ${rollup.top_categories.map(c => `${c.name} (${c.count})`).join(', ')}\n`
+    }
+    if (rollup.pain_points.length > 0) {
+      response += `😣 *Pain points:* ${rollup.pain_points.map(p => `${p.name} (${p.count})`).join(', ')}\n`
+    }
+
+    // Last few months, oldest first
+    const trend = rollup.sentiment_trend.slice(-4)
+    if (trend.length > 0) {
+      response += `📈 *Sentiment trend:* ${trend.map(month => {
+        const emoji = month.score > 0.2 ? '😊' : month.score < -0.2 ? '😞' : '😐'
+        return `${month.month} ${emoji} ${month.score}`
+      }).join(' → ')}`
+    }
+
+    return response
   }
 
   private formatInsightsResponse(insights: any): string {
@@ -248,14 +450,25 @@ Provide a helpful, concise response that addresses their question using the feed
     // Critical Issues
     response += `🚨 *Critical Issues (${insights.criticalIssues.length}):*\n`
     if (insights.criticalIssues.length > 0) {
-      insights.criticalIssues.slice(0, 5).forEach((issue: string, index: number) => {
-        response += `${index + 1}. ${issue}\n`
+      insights.criticalIssues.slice(0, 5).forEach((issue: CriticalIssue, index: number) => {
+        response += `${index + 1}. ${issue.title} (${issue.source_type}) \`${issue.id}\`\n`
+        response += `    _Severity ${issue.severity}/5: ${describeSeverity(issue.severity_breakdown)}_\n`
       })
     } else {
       response += `✅ No critical issues detected\n`
     }
     response += `\n`
 
+    // Anomalies (missing from insights cached before they existed)
+    if (insights.anomalies?.length > 0) {
+      response += `⚡ *Unusual Activity:*\n`
+      insights.anomalies.slice(0, 4).forEach((anomaly: Anomaly) => {
+        const examples = anomaly.item_ids.slice(0, 3).map(id => `\`${id}\``).join(' ')
+        response += `${anomaly.direction === 'spike' ? '📈' : '📉'} ${anomaly.summary}${examples ? ` ${examples}` : ''}\n`
+      })
+      response += `\n`
+    }
+
     // Priority Matrix
     if (insights.priorityMatrix) {
       response += `📊 *Priority Matrix:*\n`
@@ -358,13 +571,16 @@ Provide a helpful, concise response that addresses their question using the feed
            `*Slash Commands:*\n` +
            `• \`/feedback-summary\` - Overall statistics\n` +
            `• \`/network-insights\` - AI-powered analysis\n` +
-           `• \`/network-viz\` - Network health visualization\n\n` +
+           `• \`/network-viz\` - Network health visualization\n` +
+           `• \`/feedback-search <keywords>\` - Find feedback by keyword (\`source:\`, \`from:\`, \`to:\` filters)\n` +
+           `• \`/feedback-triage <id>\` - Acknowledge, assign or resolve an item\n\n` +
            `*Chat with me about:*\n` +
            `• "What are the main performance issues?"\n` +
            `• "Tell me about security concerns"\n` +
            `• "What features do users want?"\n` +
            `• "How is the network health?"\n` +
-           `• "What's the overall sentiment?"\n\n` +
+           `• "What's the overall sentiment?"\n` +
+           `• "What is MegaCorp complaining about?"\n\n` +
            `*I remember our conversation and provide personalized insights!* 💭`
   }
 
@@ -379,7 +595,7 @@ Provide a helpful, concise response that addresses their question using the feed
           },
           {
             role: 'user',
-            content: `Based on network infrastructure feedback, answer this question: ${text}`
+            content: `Based on network infrastructure feedback, answer this question: ${redactText(text).text}`
           }
         ],
         max_tokens: 200
@@ -392,6 +608,20 @@ Provide a helpful, concise response that addresses their question using the feed
     }
   }
 
+  // Interaction payloads are answered through their response_url
+  private async respond(responseUrl: string, message: any): Promise<void> {
+    try {
+      const response = await fetch(responseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message)
+      })
+      if (!response.ok) console.error('Slack response_url error:', response.status)
+    } catch (error) {
+      console.error('Error responding to Slack action:', error)
+    }
+  }
+
   private async sendMessage(channel: string, text: string, botToken: string): Promise<void> {
     try {
       console.log('Sending message to Slack:', { channel, textLength: text.length })
@@ -0,0 +1,152 @@
+import { FeedbackAggregator, FeedbackItem } from './feedback-aggregator'
+import { normalizeRecord, normalizeThread } from './source-normalizers'
+import type { WebhookResult } from './github-connector'
+import type { AuditContext } from './audit-log'
+
+// How changes from Slack message events appear in the audit log
+const AUDIT: AuditContext = { actor: 'webhook:slack', route: 'POST /slack/events' }
+
+// Subtypes that carry a real user message; joins, topic changes etc. are ignored
+const CAPTURED_SUBTYPES = [undefined, 'thread_broadcast', 'file_share']
+
+// Silently captures messages posted in SLACK_REPORT_CHANNELS as `slack` feedback,
+// shaped like data/slack-messages.json (source_id is `<channel>_<ts>`)
+export class SlackIngestion {
+  private feedbackAggregator = new FeedbackAggregator()
+
+  getReportChannels(env: any): string[] {
+    return (env.SLACK_REPORT_CHANNELS || '')
+      .split(',')
+      .map((channel: string) => channel.trim())
+      .filter(Boolean)
+  }
+
+  isReportChannel(channel: string, env: any): boolean {
+    return this.getReportChannels(env).includes(channel)
+  }
+
+  async handleMessageEvent(event: any, env: any): Promise<WebhookResult> {
+    if (event.subtype === 'message_changed') return this.handleEdit(event, env)
+    if (event.subtype === 'message_deleted') return this.handleDelete(event, env)
+
+    if (event.bot_id || !CAPTURED_SUBTYPES.includes(event.subtype)) {
+      return { status: 'ignored', reason: `Skipped ${event.subtype || 'bot'} message` }
+    }
+    // Messages addressed to the bot are questions, not feedback
+    if (env.SLACK_BOT_USER_ID && (event.text || '').includes(`<@${env.SLACK_BOT_USER_ID}>`)) {
+      return { status: 'ignored', reason: 'Message mentions the bot' }
+    }
+
+    if (event.thread_ts && event.thread_ts !== event.ts) {
+      return this.upsertReply(event.channel, event.thread_ts, event, env)
+    }
+
+    const existing = await this.findMessage(event.channel, event.ts, env)
+    const item = this.toFeedbackItem(event.channel, event)
+    if (existing) {
+      item.id = existing.id
+      item.metadata.replies = existing.metadata.replies || []
+    }
+
+    await this.feedbackAggregator.processFeedbackDirectly([item], env, AUDIT)
+    return { status: existing ? 'updated' : 'created', id: item.id }
+  }
+
+  private async handleEdit(event: any, env: any): Promise<WebhookResult> {
+    const message = event.message || {}
+
+    if (message.thread_ts && message.thread_ts !== message.ts) {
+      const parent = await this.findMessage(event.channel, message.thread_ts, env)
+      if (!parent || !this.hasReply(parent, message.ts)) {
+        return { status: 'ignored', reason: 'Edited reply was never captured' }
+      }
+      return this.upsertReply(event.channel, message.thread_ts, message, env)
+    }
+
+    const existing = await this.findMessage(event.channel, message.ts, env)
+    if (!existing) return { status: 'ignored', reason: 'Edited message was never captured' }
+
+    const updated = this.toFeedbackItem(event.channel, message)
+    existing.title = updated.title
+    existing.content = updated.content
+    existing.metadata.edited_at = new Date().toISOString()
+
+    await this.feedbackAggregator.processFeedbackDirectly([existing], env, AUDIT)
+    return { status: 'updated', id: existing.id }
+  }
+
+  private async handleDelete(event: any, env: any): Promise<WebhookResult> {
+    const previous = event.previous_message || {}
+    const threadTs = previous.thread_ts
+
+    if (threadTs && threadTs !== event.deleted_ts) {
+      const parent = await this.findMessage(event.channel, threadTs, env)
+      if (!parent || !this.hasReply(parent, event.deleted_ts)) {
+        return { status: 'ignored', reason: 'Deleted reply was never captured' }
+      }
+
+      parent.metadata.replies = normalizeThread(parent.metadata.replies).filter(reply => reply.id !== event.deleted_ts)
+      await this.feedbackAggregator.processFeedbackDirectly([parent], env, AUDIT)
+      return { status: 'updated', id: parent.id }
+    }
+
+    const existing = await this.findMessage(event.channel, event.deleted_ts, env)
+    if (!existing) return { status: 'ignored', reason: 'Deleted message was never captured' }
+
+    await this.feedbackAggregator.deleteFeedback(existing.id, env, AUDIT)
+    return { status: 'deleted', id: existing.id }
+  }
+
+  // Fold a thread reply into the parent's metadata.replies (insert or edit in place)
+  private async upsertReply(channel: string, threadTs: string, message: any, env: any): Promise<WebhookResult> {
+    const parent = await this.findMessage(channel, threadTs, env)
+    if (!parent) return { status: 'ignored', reason: 'Parent message was never captured' }
+
+    const replies = normalizeThread(parent.metadata.replies)
+    const reply = normalizeThread([{
+      id: message.ts,
+      author: message.user,
+      content: message.text || '',
+      created_at: this.tsToIso(message.ts)
+    }])[0]
+
+    const index = replies.findIndex(r => r.id === message.ts)
+    if (index !== -1) replies[index] = reply
+    else replies.push(reply)
+
+    parent.metadata.replies = replies
+    await this.feedbackAggregator.processFeedbackDirectly([parent], env, AUDIT)
+    return { status: 'updated', id: parent.id }
+  }
+
+  private async findMessage(channel: string, ts: string, env: any): Promise<FeedbackItem | undefined> {
+    return (await this.feedbackAggregator.findBySource('slack', `${channel}_${ts}`, env))[0]
+  }
+
+  private hasReply(parent: FeedbackItem, ts: string): boolean {
+    return normalizeThread(parent.metadata.replies).some(reply => reply.id === ts)
+  }
+
+  private toFeedbackItem(channel: string, message: any): FeedbackItem {
+    const text: string = message.text || ''
+    const firstLine = text.replace(/<@[A-Z0-9]+>/g, '').trim().split('\n')[0] || 'Slack message'
+
+    return normalizeRecord({
+      source_type: 'slack',
+      source_id: `${channel}_${message.ts}`,
+      title: firstLine.length > 80 ? `${firstLine.substring(0, 77)}...` : firstLine,
+      content: text,
+      author: message.user,
+      created_at: this.tsToIso(message.ts),
+      metadata: {
+        channel_id: channel,
+        thread_ts: message.ts,
+        replies: []
+      }
+    })
+  }
+
+  private tsToIso(ts: string): string {
+    return new Date(parseFloat(ts) * 1000).toISOString()
+  }
+}
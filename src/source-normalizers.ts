@@ -0,0 +1,231 @@
+import type { FeedbackItem } from './feedback-aggregator'
+
+// Canonical source types stored in the feedback table
+export const FEEDBACK_SOURCE_TYPES = ['github', 'slack', 'jira', 'email', 'bug-report', 'teams', 'dashboard-form']
+
+// Exports and older tooling disagree on naming, e.g. data/bug-reports.json uses
+// `bug_report` while the analytics key off `bug-report`
+const SOURCE_TYPE_ALIASES: Record<string, string> = {
+  bug_report: 'bug-report',
+  bugreport: 'bug-report',
+  form: 'dashboard-form',
+  dashboard_form: 'dashboard-form',
+  'ms-teams': 'teams'
+}
+
+export function normalizeSourceType(sourceType: string): string {
+  const key = (sourceType || '').trim().toLowerCase()
+  return SOURCE_TYPE_ALIASES[key] || key
+}
+
+export interface ThreadEntry {
+  // Upstream comment/reply id when the source has one, so edits and deletes can find it
+  id?: string
+  author: string
+  content: string
+  created_at: string
+}
+
+type SourceNormalizer = (record: any) => FeedbackItem
+
+// Jira ships two priority schemes (Highest..Lowest and Blocker..Trivial); both map onto
+// the critical/high/medium/low scale the severity weights (severity-model.ts) understand
+export const JIRA_PRIORITY_MAP: Record<string, string> = {
+  blocker: 'critical',
+  highest: 'critical',
+  critical: 'critical',
+  high: 'high',
+  major: 'high',
+  medium: 'medium',
+  low: 'low',
+  minor: 'low',
+  lowest: 'low',
+  trivial: 'low'
+}
+
+export function mapJiraPriority(priority: any): string | undefined {
+  if (!priority) return undefined
+  return JIRA_PRIORITY_MAP[String(priority).trim().toLowerCase()] || 'medium'
+}
+
+function toIso(value: any): string {
+  const date = value ? new Date(value) : new Date()
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString()
+}
+
+function toStringArray(value: any): string[] {
+  if (!Array.isArray(value)) return []
+  return value.filter(v => v !== null && v !== undefined).map(v => String(v))
+}
+
+export function normalizeThread(entries: any): ThreadEntry[] {
+  if (!Array.isArray(entries)) return []
+  return entries
+    .filter(entry => entry && typeof entry.content === 'string')
+    .map(entry => ({
+      ...(entry.id !== undefined && entry.id !== null ? { id: String(entry.id) } : {}),
+      author: String(entry.author || 'unknown'),
+      content: entry.content,
+      created_at: toIso(entry.created_at)
+    }))
+}
+
+// Fields every source shares; `metadata` is filled in by the per-source normalizer
+function baseItem(record: any, sourceType: string): FeedbackItem {
+  const metadata: Record<string, any> = {}
+  if (record.author_email) metadata.author_email = record.author_email
+
+  return {
+    id: record.id || `${sourceType}_${crypto.randomUUID()}`,
+    source_type: sourceType,
+    source_id: String(record.source_id),
+    title: String(record.title || '').trim(),
+    content: String(record.content || ''),
+    author: String(record.author || 'unknown'),
+    created_at: toIso(record.created_at),
+    metadata
+  }
+}
+
+const normalizeGithub: SourceNormalizer = record => {
+  const item = baseItem(record, 'github')
+  const m = record.metadata || {}
+  const comments = normalizeThread(m.comments)
+
+  Object.assign(item.metadata, {
+    repository: m.repository,
+    ...(m.pull_number !== undefined ? { pull_number: m.pull_number } : { issue_number: m.issue_number }),
+    state: String(m.state || 'open').toLowerCase(),
+    labels: toStringArray(m.labels).map(label => label.toLowerCase()),
+    assignee: m.assignee ?? null,
+    comments_count: Number.isInteger(m.comments_count) ? m.comments_count : comments.length,
+    comments
+  })
+  return item
+}
+
+const normalizeJira: SourceNormalizer = record => {
+  const item = baseItem(record, 'jira')
+  const m = record.metadata || {}
+
+  Object.assign(item.metadata, {
+    issue_type: m.issue_type,
+    status: m.status,
+    priority: mapJiraPriority(m.priority),
+    // Keep Jira's own label so nothing is lost in the mapping
+    jira_priority: m.jira_priority || m.priority,
+    assignee: m.assignee ?? null,
+    labels: toStringArray(m.labels).map(label => label.toLowerCase()),
+    components: toStringArray(m.components),
+    attachments: toStringArray(m.attachments),
+    comments: normalizeThread(m.comments),
+    status_history: Array.isArray(m.status_history) ? m.status_history : undefined,
+    resolved_at: m.resolved_at
+  })
+  return item
+}
+
+const normalizeSlack: SourceNormalizer = record => {
+  const item = baseItem(record, 'slack')
+  const m = record.metadata || {}
+
+  Object.assign(item.metadata, {
+    channel: m.channel,
+    channel_id: m.channel_id,
+    thread_ts: m.thread_ts,
+    replies: normalizeThread(m.replies)
+  })
+  return item
+}
+
+const normalizeTeams: SourceNormalizer = record => {
+  const item = baseItem(record, 'teams')
+  const m = record.metadata || {}
+
+  Object.assign(item.metadata, {
+    channel: m.channel,
+    team: m.team,
+    thread_id: m.thread_id,
+    replies: normalizeThread(m.replies)
+  })
+  return item
+}
+
+const normalizeEmail: SourceNormalizer = record => {
+  const item = baseItem(record, 'email')
+  const m = record.metadata || {}
+
+  Object.assign(item.metadata, {
+    subject: m.subject || record.title,
+    from: m.from || record.author_email,
+    to: m.to,
+    cc: toStringArray(m.cc),
+    attachments: toStringArray(m.attachments),
+    priority: String(m.priority || 'normal').toLowerCase()
+  })
+  return item
+}
+
+const normalizeDashboardForm: SourceNormalizer = record => {
+  const item = baseItem(record, 'dashboard-form')
+  const m = record.metadata || {}
+
+  Object.assign(item.metadata, {
+    form_type: m.form_type,
+    form_version: m.form_version,
+    url: m.url,
+    user_agent: m.user_agent,
+    rating: typeof m.rating === 'number' ? m.rating : Number(m.rating) || undefined,
+    category: m.category,
+    browser_info: m.browser_info || {},
+    form_fields: m.form_fields || {}
+  })
+  return item
+}
+
+const normalizeBugReport: SourceNormalizer = record => {
+  const item = baseItem(record, 'bug-report')
+  const m = record.metadata || {}
+  const tags = toStringArray(m.tags).map(tag => tag.toLowerCase())
+
+  // Carry everything else (cvss, code analysis, remediation...) through as-is
+  Object.assign(item.metadata, m, {
+    severity: m.severity,
+    status: m.status,
+    priority: m.priority,
+    tags,
+    // Bug report tags play the role labels do elsewhere, so expose them as labels too
+    labels: tags,
+    system_info: m.system_info || {},
+    error_logs: toStringArray(m.error_logs),
+    reproduction_steps: toStringArray(m.reproduction_steps),
+    attachments: toStringArray(m.attachments)
+  })
+  return item
+}
+
+const NORMALIZERS: Record<string, SourceNormalizer> = {
+  'github': normalizeGithub,
+  'jira': normalizeJira,
+  'slack': normalizeSlack,
+  'teams': normalizeTeams,
+  'email': normalizeEmail,
+  'dashboard-form': normalizeDashboardForm,
+  'bug-report': normalizeBugReport
+}
+
+// Map a native per-source record (the shapes in data/*.json) into a FeedbackItem
+export function normalizeRecord(record: any, sourceTypeHint?: string): FeedbackItem {
+  const sourceType = normalizeSourceType(sourceTypeHint || record?.source_type)
+  const normalizer = NORMALIZERS[sourceType]
+  if (!normalizer) {
+    throw new Error(`No normalizer for source type: ${record?.source_type ?? sourceTypeHint}`)
+  }
+
+  const item = normalizer(record)
+  // Drop keys the source didn't provide so stored metadata stays compact
+  Object.keys(item.metadata).forEach(key => {
+    if (item.metadata[key] === undefined) delete item.metadata[key]
+  })
+  return item
+}
@@ -0,0 +1,5 @@
+// wrangler's default module rules import `*.sql` files as text
+declare module '*.sql' {
+  const sql: string
+  export default sql
+}
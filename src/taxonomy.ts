@@ -0,0 +1,206 @@
+import { AuditContext, AuditLog, diffRecords } from './audit-log'
+import { sha256Hex } from './crypto-utils'
+import type { FieldError } from './feedback-validation'
+import { FreeTierManager } from './free-tier-optimizations'
+
+export type TaxonomyKind = 'category' | 'journey_stage' | 'feature'
+
+export type TaxonomyPriority = 'urgent' | 'high' | 'medium' | 'low'
+
+export const TAXONOMY_KINDS: TaxonomyKind[] = ['category', 'journey_stage', 'feature']
+
+export const TAXONOMY_PRIORITIES: TaxonomyPriority[] = ['urgent', 'high', 'medium', 'low']
+
+export interface TaxonomyRule {
+  kind: TaxonomyKind
+  name: string
+  // Lowercase phrases, matched on word boundaries
+  keywords: string[]
+  // Case-insensitive regular expressions, for what keywords can't express
+  patterns: string[]
+  // Item labels (any case) that put it in the entry whatever its text says
+  labels: string[]
+  // Priority matrix bucket; categories without one are topics only
+  priority: TaxonomyPriority | null
+  updated_at: string
+}
+
+export type TaxonomyRuleInput = Pick<TaxonomyRule, 'keywords' | 'patterns' | 'labels' | 'priority'>
+
+export interface Taxonomy {
+  rules: TaxonomyRule[]
+  // Fingerprint of the rules, stored with each enrichment row so a change re-categorizes
+  version: string
+}
+
+export interface TaxonomyResult {
+  status: 'created' | 'updated'
+  rule: TaxonomyRule
+}
+
+const MAX_NAME_LENGTH = 64
+const MAX_TERMS = 50
+const MAX_PATTERN_LENGTH = 200
+
+const compiled = new WeakMap<TaxonomyRule, RegExp[]>()
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// A keyword or phrase as a whole word: "api" doesn't match "rapid"
+export function keywordPattern(keyword: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'iu')
+}
+
+function ruleMatchers(rule: TaxonomyRule): RegExp[] {
+  let matchers = compiled.get(rule)
+  if (!matchers) {
+    matchers = [
+      ...rule.keywords.map(keywordPattern),
+      ...rule.patterns.map(pattern => new RegExp(pattern, 'iu'))
+    ]
+    compiled.set(rule, matchers)
+  }
+  return matchers
+}
+
+// Rules of `kind` matching an item's conversation text or one of its labels
+export function matchTaxonomy(taxonomy: Taxonomy, kind: TaxonomyKind, text: string, labels: string[]): TaxonomyRule[] {
+  const lowerLabels = labels.map(label => label.toLowerCase())
+  return taxonomy.rules.filter(rule =>
+    rule.kind === kind &&
+    (rule.labels.some(label => lowerLabels.includes(label)) || ruleMatchers(rule).some(matcher => matcher.test(text))))
+}
+
+export function validateTaxonomyRule(kind: TaxonomyKind, name: string, input: any): { input?: TaxonomyRuleInput, errors: FieldError[] } {
+  const errors: FieldError[] = []
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { errors: [{ field: 'body', message: 'must be a JSON object' }] }
+  }
+  if (!name.trim() || name.length > MAX_NAME_LENGTH) {
+    errors.push({ field: 'name', message: `must be 1-${MAX_NAME_LENGTH} characters` })
+  }
+  for (const field of ['keywords', 'patterns', 'labels']) {
+    const value = input[field]
+    if (value === undefined) continue
+    if (!Array.isArray(value) || !value.every(v => typeof v === 'string' && v.trim() !== '')) {
+      errors.push({ field, message: 'must be an array of non-empty strings' })
+    } else if (value.length > MAX_TERMS) {
+      errors.push({ field, message: `must contain at most ${MAX_TERMS} entries` })
+    }
+  }
+  if (Array.isArray(input.patterns)) {
+    for (const pattern of input.patterns) {
+      if (typeof pattern !== 'string') continue
+      if (pattern.length > MAX_PATTERN_LENGTH) {
+        errors.push({ field: 'patterns', message: `must be at most ${MAX_PATTERN_LENGTH} characters each` })
+        continue
+      }
+      try {
+        new RegExp(pattern, 'iu')
+      } catch {
+        errors.push({ field: 'patterns', message: `${pattern} is not a valid regular expression` })
+      }
+    }
+  }
+  if (input.priority !== undefined && input.priority !== null) {
+    if (kind !== 'category') {
+      errors.push({ field: 'priority', message: 'only categories have a priority' })
+    } else if (!TAXONOMY_PRIORITIES.includes(input.priority)) {
+      errors.push({ field: 'priority', message: `must be one of ${TAXONOMY_PRIORITIES.join(', ')} or null` })
+    }
+  }
+  if (errors.length === 0 && [input.keywords, input.patterns, input.labels].every(value => !value || value.length === 0)) {
+    errors.push({ field: 'keywords', message: 'at least one keyword, pattern or label is required' })
+  }
+
+  if (errors.length > 0) return { errors }
+
+  const terms = (value?: string[]) => [...new Set((value || []).map(term => term.trim().toLowerCase()))]
+  return {
+    input: {
+      keywords: terms(input.keywords),
+      patterns: [...new Set<string>(input.patterns || [])],
+      labels: terms(input.labels),
+      priority: input.priority ?? null
+    },
+    errors
+  }
+}
+
+// The taxonomy table. Every analysis reads the rules from here; changes are audited, and
+// callers re-run enrichment (FeedbackAggregator.reenrichStale) to re-categorize stored items.
+export class TaxonomyStore {
+  private freeTierManager = FreeTierManager.getInstance()
+  private auditLog = new AuditLog()
+
+  async load(env: any): Promise<Taxonomy> {
+    const result = await env.FEEDBACK_DB.prepare(`
+      SELECT kind, name, keywords, patterns, labels, priority, updated_at FROM taxonomy ORDER BY kind, name
+    `).all()
+    const rows: any[] = result.results || []
+    this.freeTierManager.recordD1RowsRead(rows.length)
+
+    const rules: TaxonomyRule[] = rows.map(row => ({
+      kind: row.kind,
+      name: row.name,
+      keywords: JSON.parse(row.keywords),
+      patterns: JSON.parse(row.patterns),
+      labels: JSON.parse(row.labels),
+      priority: row.priority,
+      updated_at: row.updated_at
+    }))
+    const fingerprint = JSON.stringify(rules.map(({ updated_at, ...rule }) => rule))
+
+    return { rules, version: (await sha256Hex(fingerprint)).slice(0, 16) }
+  }
+
+  async saveRule(kind: TaxonomyKind, name: string, input: TaxonomyRuleInput, audit: AuditContext, env: any): Promise<TaxonomyResult> {
+    const existing = (await this.load(env)).rules.find(rule => rule.kind === kind && rule.name === name)
+    const rule: TaxonomyRule = { kind, name, ...input, updated_at: new Date().toISOString() }
+
+    await env.FEEDBACK_DB.batch([
+      env.FEEDBACK_DB.prepare(`
+        INSERT INTO taxonomy (kind, name, keywords, patterns, labels, priority, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (kind, name) DO UPDATE SET
+          keywords = excluded.keywords,
+          patterns = excluded.patterns,
+          labels = excluded.labels,
+          priority = excluded.priority,
+          updated_at = excluded.updated_at
+      `).bind(kind, name, JSON.stringify(rule.keywords), JSON.stringify(rule.patterns), JSON.stringify(rule.labels), rule.priority, rule.updated_at),
+      this.auditLog.insertStatement([{
+        action: existing ? 'update' : 'create',
+        entity_type: 'taxonomy',
+        entity_id: `${kind}:${name}`,
+        changes: diffRecords(existing ? this.auditFields(existing) : null, this.auditFields(rule))
+      }], audit, env)
+    ])
+    this.freeTierManager.recordD1RowsWritten(2)
+
+    return { status: existing ? 'updated' : 'created', rule }
+  }
+
+  async deleteRule(kind: TaxonomyKind, name: string, audit: AuditContext, env: any): Promise<boolean> {
+    const existing = (await this.load(env)).rules.find(rule => rule.kind === kind && rule.name === name)
+    if (!existing) return false
+
+    await env.FEEDBACK_DB.batch([
+      env.FEEDBACK_DB.prepare('DELETE FROM taxonomy WHERE kind = ? AND name = ?').bind(kind, name),
+      this.auditLog.insertStatement([{
+        action: 'delete',
+        entity_type: 'taxonomy',
+        entity_id: `${kind}:${name}`,
+        changes: diffRecords(this.auditFields(existing), null)
+      }], audit, env)
+    ])
+    this.freeTierManager.recordD1RowsWritten(2)
+    return true
+  }
+
+  private auditFields(rule: TaxonomyRuleInput): Record<string, unknown> {
+    return { keywords: rule.keywords, patterns: rule.patterns, labels: rule.labels, priority: rule.priority }
+  }
+}
@@ -0,0 +1,152 @@
+import { SlackBot } from './slack-bot'
+import { FeedbackAggregator, FeedbackItem } from './feedback-aggregator'
+import { normalizeRecord, normalizeThread } from './source-normalizers'
+import { hmacSha256Base64, timingSafeEqual } from './crypto-utils'
+import type { AuditContext } from './audit-log'
+
+// How changes from Teams messages appear in the audit log
+const AUDIT: AuditContext = { actor: 'webhook:teams', route: 'POST /teams/messages' }
+
+// Mentioning the bot with one of these prefixes always files the message as feedback
+const FEEDBACK_PREFIX = /^(feedback|report)\s*:\s*/i
+
+// Otherwise a mention is treated as a question when it reads like one
+const QUESTION_START = /^(help|summary|overview|insights|analysis|network|visualization|what|how|why|which|who|when|show|tell|list|can|is|are|do|does)\b/i
+
+// Convert the Slack mrkdwn produced by SlackBot into markdown Teams renders
+export function slackToTeamsMarkdown(text: string): string {
+  return text
+    .replace(/<@[A-Z0-9]+>/g, '')
+    .replace(/<(https?:\/\/[^|>]+)\|([^>]+)>/g, '[$2]($1)')
+    .replace(/<(https?:\/\/[^>]+)>/g, '$1')
+    .replace(/(^|[\s(])\*([^*\n]+)\*(?=[\s).,:!?]|$)/gm, '$1**$2**')
+    .replace(/(^|[\s(])~([^~\n]+)~(?=[\s).,:!?]|$)/gm, '$1~~$2~~')
+    // Teams collapses single newlines, so make every line break a paragraph break
+    .replace(/\n/g, '\n\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// Adapter for Teams outgoing webhooks (and Bot Framework style activities): channel
+// messages become `teams` feedback shaped like data/teams-messages.json, and @mention
+// questions are answered by SlackBot's conversational core
+export class TeamsBot {
+  private slackBot = new SlackBot()
+  private feedbackAggregator = new FeedbackAggregator()
+
+  // Teams signs the body with the base64 security token: `Authorization: HMAC <base64>`
+  async verifyRequest(rawBody: string, authorization: string | undefined, secret: string): Promise<boolean> {
+    if (!authorization || !secret || !authorization.startsWith('HMAC ')) return false
+
+    // A secret that isn't base64 can't have signed anything
+    let key: Uint8Array
+    try {
+      key = Uint8Array.from(atob(secret), c => c.charCodeAt(0))
+    } catch {
+      console.error('TEAMS_WEBHOOK_SECRET is not valid base64')
+      return false
+    }
+    const expected = await hmacSha256Base64(key, rawBody)
+    return timingSafeEqual(expected, authorization.slice(5).trim())
+  }
+
+  async handleActivity(activity: any, env: any): Promise<{ type: 'message', text: string }> {
+    if (activity.type !== 'message') {
+      return { type: 'message', text: '' }
+    }
+
+    const mentioned = this.mentionsBot(activity)
+    const text = this.cleanText(activity.text || '')
+    const isQuestion = !FEEDBACK_PREFIX.test(text) && (text.endsWith('?') || QUESTION_START.test(text))
+
+    if (!mentioned || !isQuestion) {
+      const result = await this.captureFeedback(activity, text.replace(FEEDBACK_PREFIX, ''), env)
+      return { type: 'message', text: mentioned ? `📝 Logged as feedback (${result.id})` : '' }
+    }
+
+    const userId = activity.from?.aadObjectId || activity.from?.id || 'teams-user'
+    const sessionManagerId = env.SESSION_MANAGER.idFromName(`teams_${userId}`)
+    const sessionManagerStub = env.SESSION_MANAGER.get(sessionManagerId)
+
+    const response = await this.slackBot.handleConversationalChat(text, userId, sessionManagerStub, env)
+    return { type: 'message', text: slackToTeamsMarkdown(response) }
+  }
+
+  // Root posts become items; replies (conversation id `...;messageid=<root>`) fold into the root's replies
+  private async captureFeedback(activity: any, text: string, env: any): Promise<{ id: string }> {
+    const [threadId, rootPart] = String(activity.conversation?.id || '').split(';messageid=')
+    const rootId = rootPart || activity.id
+
+    if (rootId !== activity.id) {
+      const parent = (await this.feedbackAggregator.findBySource('teams', `${threadId}_${rootId}`, env))[0]
+      if (parent) {
+        // A redelivered or edited reply replaces its earlier entry
+        const replies = normalizeThread(parent.metadata.replies)
+        const entry = normalizeThread([{
+          id: activity.id,
+          author: activity.from?.name,
+          content: text,
+          created_at: activity.timestamp
+        }])[0]
+        const index = replies.findIndex(reply => reply.id === entry.id)
+        if (index !== -1) replies[index] = entry
+        else replies.push(entry)
+        parent.metadata.replies = replies
+
+        await this.feedbackAggregator.processFeedbackDirectly([parent], env, AUDIT)
+        return { id: parent.id }
+      }
+    }
+
+    const item = this.toFeedbackItem(activity, threadId, text)
+    const existing = (await this.feedbackAggregator.findBySource('teams', item.source_id, env))[0]
+    if (existing) {
+      item.id = existing.id
+      item.metadata.replies = existing.metadata.replies || []
+    }
+
+    await this.feedbackAggregator.processFeedbackDirectly([item], env, AUDIT)
+    return { id: item.id }
+  }
+
+  private toFeedbackItem(activity: any, threadId: string, text: string): FeedbackItem {
+    const firstLine = text.split('\n')[0] || 'Teams message'
+    const channelData = activity.channelData || {}
+
+    return normalizeRecord({
+      source_type: 'teams',
+      source_id: `${threadId}_${activity.id}`,
+      title: firstLine.length > 80 ? `${firstLine.substring(0, 77)}...` : firstLine,
+      content: text,
+      author: activity.from?.name,
+      created_at: activity.timestamp,
+      metadata: {
+        channel: channelData.channel?.name || channelData.teamsChannelId || channelData.channel?.id,
+        team: channelData.team?.name || channelData.teamsTeamId || channelData.team?.id,
+        thread_id: threadId,
+        replies: []
+      }
+    })
+  }
+
+  // An `<at>` tag can mention anyone, so only a mention entity naming the bot (the recipient) counts
+  private mentionsBot(activity: any): boolean {
+    const botId = activity.recipient?.id
+    return Boolean(botId) &&
+      (activity.entities || []).some((entity: any) => entity.type === 'mention' && entity.mentioned?.id === botId)
+  }
+
+  // Activity text is HTML with `<at>Bot</at>` mention tags
+  private cleanText(html: string): string {
+    return html
+      .replace(/<at>[^<]*<\/at>/gi, '')
+      .replace(/<br\s*\/?>|<\/p>|<\/div>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  }
+}